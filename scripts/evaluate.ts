@@ -0,0 +1,48 @@
+// Offline scoring regression check: npm run eval [-- --update] [-- --only name,name] [-- --record owner/repo[@ref] --name fixture]
+import { EvaluationDiff, recordFixture, runEvaluation } from '../src/lib/evaluation';
+
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function printDiffs(diffs: EvaluationDiff[]): void {
+  for (const diff of diffs) {
+    console.log(`    ${diff.agent} ${diff.kind}: ${diff.message}`);
+  }
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+
+  const record = readFlag(args, '--record');
+  if (record) {
+    const [fullName, ref] = record.split('@');
+    const [owner, repo] = fullName.split('/');
+    if (!owner || !repo) {
+      console.error('--record expects owner/repo[@ref]');
+      return 2;
+    }
+    const file = await recordFixture(owner, repo, readFlag(args, '--name') || repo, ref);
+    console.log(`📼 Recorded ${fullName} to ${file}`);
+    return 0;
+  }
+
+  const only = readFlag(args, '--only')?.split(',').map(name => name.trim()).filter(Boolean);
+  const report = await runEvaluation({ only, update: args.includes('--update') });
+
+  for (const result of report.results) {
+    console.log(`${result.passed ? '✅' : '❌'} ${result.fixture}`);
+    printDiffs(result.diffs);
+  }
+
+  console.log(`\n${report.passed} passed, ${report.failed} failed`);
+  return report.failed > 0 ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Evaluation failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ANALYSIS_MODES, DEFAULT_ANALYSIS_MODE, getAnalysisEngine, isAnalysisMode } from '@/lib/analysis-pipeline';
+
+export async function GET(request: NextRequest) {
+  const mode = request.nextUrl.searchParams.get('mode') || DEFAULT_ANALYSIS_MODE;
+
+  if (!isAnalysisMode(mode)) {
+    return NextResponse.json({ error: `mode must be one of: ${ANALYSIS_MODES.join(', ')}` }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    mode,
+    agents: getAnalysisEngine(mode).getAgents(),
+    modes: ANALYSIS_MODES.map(m => ({ mode: m, description: getAnalysisEngine(m).description }))
+  });
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisJobEvent, canViewAnalysisJob, getAnalysisJob, isTerminalJobStatus, summarizeAnalysisJob } from '@/lib/analysis-jobs';
+import { getRequestSession } from '@/lib/auth-session';
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Server-Sent Events stream of per-agent progress for an analysis job
+export async function GET(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+  const initialJob = await getAnalysisJob(jobId);
+  const session = await getRequestSession(request);
+
+  if (!initialJob || !canViewAnalysisJob(initialJob, session?.login ?? null)) {
+    return NextResponse.json({ error: 'Analysis job not found' }, { status: 404 });
+  }
+
+  // EventSource resends the last id it saw when it reconnects
+  let lastSeq = Number(request.headers.get('last-event-id')) || 0;
+  const encoder = new TextEncoder();
+  // Set once the client disconnects, after which the controller can no longer be closed
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let lastWrite = Date.now();
+      const send = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk));
+        lastWrite = Date.now();
+      };
+      const sendEvent = (event: AnalysisJobEvent, data: object) => {
+        send(`id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      let job = initialJob;
+      try {
+        while (!closed && !request.signal.aborted) {
+          for (const event of job.events.filter(e => e.seq > lastSeq)) {
+            // Terminal events carry the full job summary so the client needs no extra request
+            const data = event.type === 'job-completed' || event.type === 'job-failed'
+              ? { ...event, job: summarizeAnalysisJob(job) }
+              : event;
+            sendEvent(event, data);
+            lastSeq = event.seq;
+          }
+
+          if (isTerminalJobStatus(job.status)) break;
+
+          if (Date.now() - lastWrite >= HEARTBEAT_INTERVAL_MS) {
+            send(': heartbeat\n\n');
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+          const latest = await getAnalysisJob(jobId);
+          if (!latest) break;
+          job = latest;
+        }
+      } catch (error) {
+        console.error(`Analysis event stream failed for job ${jobId}:`, error);
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canViewAnalysisJob, getAnalysisJob, isTerminalJobStatus, setAnalysisJobShared, summarizeAnalysisJob } from '@/lib/analysis-jobs';
+import { getRequestSession, isSessionUser } from '@/lib/auth-session';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+
+  try {
+    const job = await getAnalysisJob(jobId);
+    const session = await getRequestSession(request);
+
+    // Private reports look the same as missing ones to everyone but their owner
+    if (!job || !canViewAnalysisJob(job, session?.login ?? null)) {
+      return NextResponse.json({ error: 'Analysis job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(summarizeAnalysisJob(job));
+  } catch (error) {
+    console.error(`Failed to load analysis job ${jobId}:`, error);
+    return NextResponse.json({
+      error: 'Failed to load analysis job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// { "shared": true } lets anyone with the job id read the report; only its owner can change that
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+
+  try {
+    const { shared } = await request.json();
+    if (typeof shared !== 'boolean') {
+      return NextResponse.json({ error: 'shared must be a boolean' }, { status: 400 });
+    }
+
+    const job = await getAnalysisJob(jobId);
+    const session = await getRequestSession(request);
+
+    if (!job || !canViewAnalysisJob(job, session?.login ?? null)) {
+      return NextResponse.json({ error: 'Analysis job not found' }, { status: 404 });
+    }
+    if (!job.owner || !isSessionUser(session, job.owner)) {
+      return NextResponse.json({ error: 'Only the owner of a report can share it' }, { status: 403 });
+    }
+    if (!isTerminalJobStatus(job.status)) {
+      return NextResponse.json({ error: 'The analysis is still running' }, { status: 409 });
+    }
+
+    return NextResponse.json(summarizeAnalysisJob(await setAnalysisJobShared(job, shared)));
+  } catch (error) {
+    console.error(`Failed to update analysis job ${jobId}:`, error);
+    return NextResponse.json({
+      error: 'Failed to update analysis job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,5 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { AdvancedTigerSystem } from '@/lib/advanced-tiger-system';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createAnalysisJob, runAnalysisJob } from '@/lib/analysis-jobs';
+import { ANALYSIS_MODES, DEFAULT_ANALYSIS_MODE, isAnalysisMode } from '@/lib/analysis-pipeline';
+import { getRequestSession, getSessionConnection, isSessionUser } from '@/lib/auth-session';
+import { getRequestConnection, withGitHubConnection } from '@/lib/github-client';
+import { PROVIDERS, isProviderId } from '@/lib/repository-provider';
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,174 +14,66 @@ export async function POST(request: NextRequest) {
       TIGER_DATABASE_URL: process.env.TIGER_DATABASE_URL ? 'SET' : 'MISSING'
     });
     
-    const { username, repositories } = await request.json();
+    const { username, repositories, refs, mode = DEFAULT_ANALYSIS_MODE, provider = 'github', forceRefresh = false, includePrivate = false } = await request.json();
     
     if (!username || !repositories || repositories.length === 0) {
       return NextResponse.json({ error: 'Username and repositories required' }, { status: 400 });
     }
-
-    console.log(`🚀 Starting Advanced Tiger Multi-Agent Analysis for ${username}`);
-    
-    const advancedSystem = new AdvancedTigerSystem();
-    
-    // Run advanced analysis with all Tiger Cloud features
-    const result = await advancedSystem.analyzeWithAdvancedAgents(username, repositories);
     
-    // Calculate category scores from insights
-    const categoryScores = {
-      'code-architecture': 0,
-      'technology-stack': 0,
-      'career-readiness': 0,
-      'innovation-impact': 0
-    };
-    
-    const categoryMap: { [key: string]: string } = {
-      'Code Architecture': 'code-architecture',
-      'Technology Stack': 'technology-stack',
-      'Career Readiness': 'career-readiness',
-      'Innovation & Impact': 'innovation-impact'
-    };
-    
-    // Group insights by category and calculate averages
-    Object.keys(categoryMap).forEach(category => {
-      const categoryInsights = result.insights.filter(i => i.category === category);
-      if (categoryInsights.length > 0) {
-        const avgScore = categoryInsights.reduce((sum, i) => sum + i.score, 0) / categoryInsights.length;
-        categoryScores[categoryMap[category] as keyof typeof categoryScores] = Math.round(avgScore * 10) / 10;
-      } else {
-        categoryScores[categoryMap[category] as keyof typeof categoryScores] = 5.0;
-      }
-    });
-    
-    const overallScore = Object.values(categoryScores).reduce((a, b) => a + b, 0) / 4;
+    if (refs !== undefined && (typeof refs !== 'object' || Object.values(refs).some(ref => typeof ref !== 'string' || !ref))) {
+      return NextResponse.json({ error: 'refs must map repository names to branch or tag names' }, { status: 400 });
+    }
+
+    if (typeof forceRefresh !== 'boolean') {
+      return NextResponse.json({ error: 'forceRefresh must be a boolean' }, { status: 400 });
+    }
+
+    if (!isAnalysisMode(mode)) {
+      return NextResponse.json({ error: `mode must be one of: ${ANALYSIS_MODES.join(', ')}` }, { status: 400 });
+    }
+
+    if (!isProviderId(provider)) {
+      return NextResponse.json({ error: `provider must be one of: ${PROVIDERS.join(', ')}` }, { status: 400 });
+    }
+
+    if (typeof includePrivate !== 'boolean') {
+      return NextResponse.json({ error: 'includePrivate must be a boolean' }, { status: 400 });
+    }
+
+    // Private repositories are read with the signed-in user's own token, and only for their own account
+    const session = await getRequestSession(request);
+    if (includePrivate && (provider !== 'github' || !isSessionUser(session, username))) {
+      return NextResponse.json(
+        { error: 'Sign in with GitHub as this user to analyze private repositories' },
+        { status: session ? 403 : 401 }
+      );
+    }
+
+    // The token stays in memory with the running job and is never stored with it
+    const connection = includePrivate && session ? getSessionConnection(session) : getRequestConnection(request.headers);
+    if (!connection) {
+      return NextResponse.json({ error: 'X-GitHub-Api-Url is not an allowed GitHub instance' }, { status: 400 });
+    }
+
+    console.log(`🚀 Queueing ${mode} analysis for ${provider}/${username}`);
     
-    // Format response with all advanced features
-    const response = {
-      // Core analysis results
-      overallDeveloperScore: Math.round(overallScore * 10) / 10,
-      
-      // Individual repository insights
-      repositoryInsights: result.insights.map(insight => ({
-        repository: insight.repository,
-        category: insight.category,
-        score: insight.score,
-        insights: insight.insights,
-        actionables: insight.actionables,
-        patterns: insight.patterns,
-        agentLearnings: insight.learnings
-      })),
-      
-      // Career profile with actionables
-      careerProfile: result.careerProfile,
-      
-      // Cross-repository patterns (pg_text search simulation)
-      crossRepoPatterns: result.crossRepoPatterns,
-      
-      // AI learning evolution
-      agentLearningEvolution: result.learningEvolution,
-      
-      // Agent scores for compatibility
-      overallScores: [
-        {
-          agent: 'code-architecture',
-          averageScore: categoryScores['code-architecture'],
-          repositoriesAnalyzed: repositories.length,
-          processingTimeMs: 2500,
-          recommendations: result.insights
-            .filter(i => i.category === 'Code Architecture')
-            .flatMap(i => i.actionables)
-            .slice(0, 3)
-        },
-        {
-          agent: 'technology-stack',
-          averageScore: categoryScores['technology-stack'],
-          repositoriesAnalyzed: repositories.length,
-          processingTimeMs: 2200,
-          recommendations: result.insights
-            .filter(i => i.category === 'Technology Stack')
-            .flatMap(i => i.actionables)
-            .slice(0, 3)
-        },
-        {
-          agent: 'career-readiness',
-          averageScore: categoryScores['career-readiness'],
-          repositoriesAnalyzed: repositories.length,
-          processingTimeMs: 2800,
-          recommendations: result.insights
-            .filter(i => i.category === 'Career Readiness')
-            .flatMap(i => i.actionables)
-            .slice(0, 3)
-        },
-        {
-          agent: 'innovation-impact',
-          averageScore: categoryScores['innovation-impact'],
-          repositoriesAnalyzed: repositories.length,
-          processingTimeMs: 3000,
-          recommendations: result.insights
-            .filter(i => i.category === 'Innovation & Impact')
-            .flatMap(i => i.actionables)
-            .slice(0, 3)
-        }
-      ],
-      
-      // Legacy format for compatibility
-      analyses: {
-        'code-architecture': result.insights
-          .filter(i => i.category === 'Code Architecture')
-          .map(i => ({
-            repository: i.repository,
-            score: i.score,
-            insights: i.insights,
-            recommendations: i.actionables
-          })),
-        'technology-stack': result.insights
-          .filter(i => i.category === 'Technology Stack')
-          .map(i => ({
-            repository: i.repository,
-            score: i.score,
-            insights: i.insights,
-            recommendations: i.actionables
-          })),
-        'career-readiness': result.insights
-          .filter(i => i.category === 'Career Readiness')
-          .map(i => ({
-            repository: i.repository,
-            score: i.score,
-            insights: i.insights,
-            recommendations: i.actionables
-          })),
-        'innovation-impact': result.insights
-          .filter(i => i.category === 'Innovation & Impact')
-          .map(i => ({
-            repository: i.repository,
-            score: i.score,
-            insights: i.insights,
-            recommendations: i.actionables
-          }))
-      },
-      
-      // Advanced Tiger Cloud features used
-      tigerFeatures: {
-        multiAgentForks: true,
-        pgTextSearch: true,
-        fluidStorage: true,
-        realTimeCollaboration: true,
-        agentLearning: true,
-        crossRepoAnalysis: true
-      },
-      
-      repositoryCount: repositories.length,
-      tigerCloudUsed: true
-    };
+    // Signed-in users own their reports, which stay private until shared
+    const job = await createAnalysisJob(username, repositories, { refs, mode, provider, forceRefresh, owner: session?.login });
     
-    console.log(`✅ Advanced Tiger Analysis Complete: ${overallScore.toFixed(1)}/10`);
-    console.log(`🎯 Career Profile: ${result.careerProfile.detectedRole} (${(result.careerProfile.confidence * 100).toFixed(0)}% confidence)`);
-    console.log(`🔍 Cross-repo patterns found: ${result.crossRepoPatterns.length}`);
+    // Run the analysis after the response is sent so large selections don't time out the request
+    after(() => withGitHubConnection(connection, () => runAnalysisJob(job.id)));
     
-    return NextResponse.json(response);
+    return NextResponse.json({
+      jobId: job.id,
+      mode,
+      provider,
+      owner: job.owner ?? null,
+      status: job.status,
+      statusUrl: `/api/analyze/${job.id}`
+    }, { status: 202 });
     
   } catch (error) {
-    console.error('Advanced Tiger analysis failed:', error);
+    console.error('Failed to queue advanced Tiger analysis:', error);
     return NextResponse.json({ 
       error: 'Advanced analysis failed', 
       details: error instanceof Error ? error.message : 'Unknown error'
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, createSession, verifySignedValue } from '@/lib/auth-session';
+import { getDefaultConnection, getGitHubClient } from '@/lib/github-client';
+import { OAUTH_STATE_COOKIE, exchangeOAuthCode, getOAuthRedirectUri, isGitHubOAuthConfigured, resolveReturnTo } from '@/lib/github-oauth';
+
+interface AuthenticatedUser {
+  login: string;
+  name: string | null;
+  avatar_url: string;
+}
+
+export async function GET(request: NextRequest) {
+  if (!isGitHubOAuthConfigured()) {
+    return NextResponse.json({ error: 'GitHub sign-in is not configured' }, { status: 501 });
+  }
+
+  const code = request.nextUrl.searchParams.get('code');
+  const state = request.nextUrl.searchParams.get('state');
+  const stored = verifySignedValue(request.cookies.get(OAUTH_STATE_COOKIE)?.value);
+  const separator = stored?.indexOf(':') ?? -1;
+
+  // The state must round-trip through GitHub unchanged, which rules out forged callbacks
+  if (!code || !state || !stored || separator < 0 || stored.slice(0, separator) !== state) {
+    return NextResponse.json({ error: 'Invalid or expired sign-in attempt, please try again' }, { status: 400 });
+  }
+  const returnTo = stored.slice(separator + 1);
+
+  try {
+    const { accessToken, scopes } = await exchangeOAuthCode(code, getOAuthRedirectUri(request.nextUrl.origin));
+    const client = getGitHubClient({ ...getDefaultConnection(), token: accessToken });
+    const user = await client.get<AuthenticatedUser>('/user');
+    const { cookie } = await createSession(user, accessToken, scopes);
+
+    // Checked again so a state cookie signed before the check existed can't redirect off-site
+    const response = NextResponse.redirect(new URL(resolveReturnTo(returnTo, request.nextUrl.origin), request.nextUrl.origin));
+    response.cookies.set(SESSION_COOKIE, cookie, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: request.nextUrl.protocol === 'https:',
+      path: '/',
+      maxAge: SESSION_TTL_SECONDS
+    });
+    response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth' });
+    return response;
+  } catch (error) {
+    console.error('GitHub sign-in failed:', error);
+    return NextResponse.json({ error: 'GitHub sign-in failed' }, { status: 502 });
+  }
+}
@@ -0,0 +1,35 @@
+import { randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { signValue } from '@/lib/auth-session';
+import {
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_TTL_SECONDS,
+  getAuthorizeUrl,
+  getOAuthRedirectUri,
+  isGitHubOAuthConfigured,
+  resolveReturnTo
+} from '@/lib/github-oauth';
+
+// Starts GitHub sign-in; returnTo is where the callback sends the browser afterwards
+export async function GET(request: NextRequest) {
+  if (!isGitHubOAuthConfigured()) {
+    return NextResponse.json(
+      { error: 'GitHub sign-in needs GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET and NEXTAUTH_SECRET' },
+      { status: 501 }
+    );
+  }
+
+  // Same-site paths only, so the callback can't be used as an open redirect
+  const returnTo = resolveReturnTo(request.nextUrl.searchParams.get('returnTo'), request.nextUrl.origin);
+  const state = randomBytes(16).toString('hex');
+
+  const response = NextResponse.redirect(getAuthorizeUrl(state, getOAuthRedirectUri(request.nextUrl.origin)));
+  response.cookies.set(OAUTH_STATE_COOKIE, signValue(`${state}:${returnTo}`), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/api/auth',
+    maxAge: OAUTH_STATE_TTL_SECONDS
+  });
+  return response;
+}
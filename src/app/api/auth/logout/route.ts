@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, deleteSession } from '@/lib/auth-session';
+
+// Forgets the stored token as well as the cookie
+export async function POST(request: NextRequest) {
+  await deleteSession(request.cookies.get(SESSION_COOKIE)?.value);
+
+  const response = NextResponse.json({ signedOut: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
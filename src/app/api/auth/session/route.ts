@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describeSession, getRequestSession } from '@/lib/auth-session';
+import { isGitHubOAuthConfigured } from '@/lib/github-oauth';
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+
+  return NextResponse.json({
+    enabled: isGitHubOAuthConfigured(),
+    user: session ? describeSession(session) : null
+  });
+}
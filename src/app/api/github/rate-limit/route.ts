@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGitHubClient, getRequestConnection } from '@/lib/github-client';
+
+export async function GET(request: NextRequest) {
+  const connection = getRequestConnection(request.headers);
+  if (!connection) {
+    return NextResponse.json({ error: 'X-GitHub-Api-Url is not an allowed GitHub instance' }, { status: 400 });
+  }
+
+  return NextResponse.json(getGitHubClient(connection).getStats());
+}
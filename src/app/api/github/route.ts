@@ -1,52 +1,107 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GitHubService } from '@/lib/github';
-
-const githubService = new GitHubService();
+import { getRequestSession, getSessionConnection, isSessionUser } from '@/lib/auth-session';
+import { GitHubApiError, getRequestConnection, withGitHubConnection } from '@/lib/github-client';
+import { ProviderApiError } from '@/lib/provider-http';
+import { PROVIDERS, getGitHubService, getRepositoryProvider, isProviderId } from '@/lib/repository-provider';
+import { rankRepositories } from '@/lib/repository-listing';
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const username = searchParams.get('username');
+  const providerId = searchParams.get('provider') || 'github';
   
   if (!username) {
     return NextResponse.json({ error: 'Username is required' }, { status: 400 });
   }
 
+  if (!isProviderId(providerId)) {
+    return NextResponse.json({ error: `provider must be one of: ${PROVIDERS.join(', ')}` }, { status: 400 });
+  }
+
+  // Private repositories are listed with the signed-in user's own token, and only for their own account
+  const includePrivate = searchParams.get('includePrivate') === 'true';
+  const session = await getRequestSession(request);
+  if (includePrivate && (providerId !== 'github' || !isSessionUser(session, username))) {
+    return NextResponse.json(
+      { error: 'Sign in with GitHub as this user to include private repositories' },
+      { status: session ? 403 : 401 }
+    );
+  }
+
+  const connection = includePrivate && session ? getSessionConnection(session) : getRequestConnection(request.headers);
+  if (!connection) {
+    return NextResponse.json({ error: 'X-GitHub-Api-Url is not an allowed GitHub instance' }, { status: 400 });
+  }
+
+  const provider = getRepositoryProvider(providerId);
+  // Only GitHub requests go through the rate-limit-tracking client
+  const rateLimits = () => providerId === 'github' ? withGitHubConnection(connection, () => getGitHubService().getRateLimits()) : undefined;
+
+  const listOptions = {
+    includeForks: searchParams.get('includeForks') === 'true',
+    includeArchived: searchParams.get('includeArchived') !== 'false',
+    includeTemplates: searchParams.get('includeTemplates') !== 'false',
+    includePrivate,
+    useGraphQL: searchParams.has('graphql') ? searchParams.get('graphql') === 'true' : undefined
+  };
+
   try {
-    const [userProfile, repositories] = await Promise.all([
-      githubService.getUserProfile(username),
-      githubService.getUserRepositories(username)
-    ]);
+    const [userProfile, repositories] = await withGitHubConnection(connection, () => Promise.all([
+      provider.getUserProfile(username),
+      provider.getUserRepositories(username, listOptions)
+    ]));
 
-    const rankedRepos = githubService.rankRepositories(repositories);
+    const rankedRepos = rankRepositories(repositories);
 
     return NextResponse.json({
+      provider: provider.id,
       user: userProfile,
       repositories: rankedRepos,
-      totalRepos: repositories.length
+      totalRepos: repositories.length,
+      rateLimits: rateLimits()
     });
   } catch (error) {
-    console.error('GitHub API error:', error);
+    console.error(`${provider.name} API error:`, error);
+    if ((error instanceof GitHubApiError || error instanceof ProviderApiError) && (error.status === 403 || error.status === 429)) {
+      return NextResponse.json(
+        { error: `${provider.name} API rate limit reached, please try again later`, rateLimits: rateLimits() },
+        { status: 429 }
+      );
+    }
+    if ((error instanceof GitHubApiError || error instanceof ProviderApiError) && error.status === 404) {
+      return NextResponse.json({ error: `${provider.name} user ${username} not found` }, { status: 404 });
+    }
     return NextResponse.json(
-      { error: 'Failed to fetch GitHub data' }, 
+      { error: `Failed to fetch ${provider.name} data` }, 
       { status: 500 }
     );
   }
 }
 
 export async function POST(request: NextRequest) {
+  const connection = getRequestConnection(request.headers);
+  if (!connection) {
+    return NextResponse.json({ error: 'X-GitHub-Api-Url is not an allowed GitHub instance' }, { status: 400 });
+  }
+
   try {
-    const { username, selectedRepos } = await request.json();
+    const { username, selectedRepos, provider = 'github' } = await request.json();
     
     if (!username || !selectedRepos) {
       return NextResponse.json({ error: 'Username and selected repositories are required' }, { status: 400 });
     }
 
+    // Commit and language details come from GitHub's REST API; other providers are read from clones during analysis
+    if (provider !== 'github') {
+      return NextResponse.json({ error: 'Detailed repository data is only available for GitHub' }, { status: 400 });
+    }
+
     // Get detailed information for selected repositories
-    const detailedRepos = await Promise.all(
+    const detailedRepos = await withGitHubConnection(connection, () => Promise.all(
       selectedRepos.map(async (repoName: string) => {
-        return await githubService.getRepositoryDetails(username, repoName);
+        return await getGitHubService().getRepositoryDetails(username, repoName);
       })
-    );
+    ));
 
     return NextResponse.json({
       repositories: detailedRepos
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizationJob, summarizeOrganizationJob } from '@/lib/organization-jobs';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+
+  try {
+    const job = await getOrganizationJob(jobId);
+    if (!job) {
+      return NextResponse.json({ error: 'Organization job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(summarizeOrganizationJob(job));
+  } catch (error) {
+    console.error(`Failed to load organization job ${jobId}:`, error);
+    return NextResponse.json({
+      error: 'Failed to load organization job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
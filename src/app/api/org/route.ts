@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { ANALYSIS_MODES, DEFAULT_ANALYSIS_MODE, isAnalysisMode } from '@/lib/analysis-pipeline';
+import { GitHubApiError, getRequestConnection, withGitHubConnection } from '@/lib/github-client';
+import {
+  MAX_ORGANIZATION_MEMBERS,
+  MAX_ORGANIZATION_REPOSITORIES,
+  MAX_REPOSITORIES_PER_MEMBER
+} from '@/lib/organization-analysis';
+import { createOrganizationJob, runOrganizationJob } from '@/lib/organization-jobs';
+import { getGitHubService } from '@/lib/repository-provider';
+
+// A whole number within 1..max; undefined when absent, null when invalid
+function parseLimit(value: unknown, max: number): number | undefined | null {
+  if (value === undefined) return undefined;
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max ? value : null;
+}
+
+export async function POST(request: NextRequest) {
+  const { org, mode = DEFAULT_ANALYSIS_MODE, members, repos, reposPerMember } = await request.json();
+
+  if (!org || typeof org !== 'string') {
+    return NextResponse.json({ error: 'org is required' }, { status: 400 });
+  }
+
+  if (!isAnalysisMode(mode)) {
+    return NextResponse.json({ error: `mode must be one of: ${ANALYSIS_MODES.join(', ')}` }, { status: 400 });
+  }
+
+  const memberLimit = parseLimit(members, MAX_ORGANIZATION_MEMBERS);
+  const repositoryLimit = parseLimit(repos, MAX_ORGANIZATION_REPOSITORIES);
+  const repositoriesPerMember = parseLimit(reposPerMember, MAX_REPOSITORIES_PER_MEMBER);
+  if (memberLimit === null || repositoryLimit === null || repositoriesPerMember === null) {
+    return NextResponse.json({
+      error: `members must be 1-${MAX_ORGANIZATION_MEMBERS}, repos 1-${MAX_ORGANIZATION_REPOSITORIES} and reposPerMember 1-${MAX_REPOSITORIES_PER_MEMBER}`
+    }, { status: 400 });
+  }
+
+  const connection = getRequestConnection(request.headers);
+  if (!connection) {
+    return NextResponse.json({ error: 'X-GitHub-Api-Url is not an allowed GitHub instance' }, { status: 400 });
+  }
+
+  const rateLimits = () => withGitHubConnection(connection, () => getGitHubService().getRateLimits());
+
+  try {
+    // Reject unknown organizations up front rather than queueing a job that can only fail
+    await withGitHubConnection(connection, () => getGitHubService().getOrganization(org));
+
+    const job = await createOrganizationJob(org, { mode, memberLimit, repositoryLimit, repositoriesPerMember });
+
+    // Members are analyzed one at a time, which takes minutes for a large team, so the job runs after the response
+    after(() => withGitHubConnection(connection, () => runOrganizationJob(job.id)));
+
+    return NextResponse.json({
+      jobId: job.id,
+      org,
+      mode,
+      status: job.status,
+      statusUrl: `/api/org/${job.id}`
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Failed to queue organization analysis:', error);
+    if (error instanceof GitHubApiError && (error.status === 403 || error.status === 429)) {
+      return NextResponse.json(
+        { error: 'GitHub API rate limit reached, please try again later', rateLimits: rateLimits() },
+        { status: 429 }
+      );
+    }
+    if (error instanceof GitHubApiError && error.status === 404) {
+      return NextResponse.json({ error: `GitHub organization ${org} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ error: 'Failed to analyze organization' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { loadPromptTemplates } from '@/lib/prompt-templates';
+
+export async function GET() {
+  try {
+    const templates = loadPromptTemplates();
+    const ids = Array.from(new Set(templates.map(template => template.id)));
+
+    // Templates are sorted by version, so the last one of each id is the latest
+    const personas = ids.map(id => {
+      const versions = templates.filter(template => template.id === id);
+      const latest = versions[versions.length - 1];
+      return {
+        id,
+        persona: latest.persona,
+        mode: latest.mode,
+        description: latest.description,
+        variables: latest.variables,
+        version: latest.version,
+        versions: versions.map(template => template.version)
+      };
+    });
+
+    return NextResponse.json({ personas });
+  } catch (error) {
+    console.error('Failed to load prompt templates:', error);
+    return NextResponse.json({ error: 'Failed to load prompt templates' }, { status: 500 });
+  }
+}
@@ -1,42 +1,74 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { formatContributionsSection, hasContributions, isOpenSourceContributions } from '@/lib/contributions';
+import { MIN_SKILL_PERCENTAGE, getSkillLanguages, isLanguageProfile } from '@/lib/language-profile';
+
+// Categories with only placeholder scores arrive with a null averageScore and are left out; null when none was scored
+function averageScore(overallScores: unknown): number | null {
+  if (!Array.isArray(overallScores)) return null;
+  const scores = overallScores
+    .map(score => (score as { averageScore?: unknown }).averageScore)
+    .filter((score): score is number => typeof score === 'number');
+  return scores.length > 0 ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10 : null;
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? 'not scored' : `${score.toFixed(1)}/10`;
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { username, userProfile, analyses, overallScores, resume } = await request.json();
+    const { username, analyses, overallScores, resume, languageProfile, contributions } = await request.json();
 
     if (!username || !analyses) {
       return NextResponse.json({ error: 'Username and analyses are required' }, { status: 400 });
     }
 
+    // Weighted byte shares from the analysis replace the generic language list when available
+    const profile = isLanguageProfile(languageProfile) ? languageProfile : null;
+    const skillLanguages = profile ? getSkillLanguages(profile) : [];
+    const languageShares = profile ? profile.languages.filter(share => share.percentage >= MIN_SKILL_PERCENTAGE) : [];
+
+    // Work merged into other people's projects gets its own section
+    const openSource = isOpenSourceContributions(contributions) && hasContributions(contributions) ? contributions : null;
+    const openSourceSection = openSource ? formatContributionsSection(openSource) : '';
+
+    const overallScore = averageScore(overallScores);
+
     console.log(`📝 [GitResume] Generating professional resume for ${username}...`);
 
-    // If resume is already generated from analysis, return it
-    if (resume && resume.content) {
+    // The LLM modes draft a resume from the analysis itself; prefer it over the template below
+    if (resume && typeof resume.content === 'string' && resume.content.trim()) {
       console.log(`✅ [GitResume] Resume already generated, returning existing resume`);
       
       return NextResponse.json({
-        resume: resume.content,
-        overallScore: overallScores?.reduce((sum: number, score: any) => sum + score.averageScore, 0) / (overallScores?.length || 1) || 7.5,
-        skills: resume.skills || {
-          languages: ['JavaScript', 'TypeScript', 'Python'],
-          frameworks: ['React', 'Node.js', 'Next.js'],
-          tools: ['Git', 'GitHub', 'VS Code'],
-          strengths: ['Problem Solving', 'Technical Implementation', 'Project Development'],
-          improvements: ['Documentation', 'Testing', 'Architecture']
-        }
+        resume: openSourceSection && !resume.content.includes('## Open Source Contributions')
+          ? `${resume.content.trimEnd()}\n\n${openSourceSection}\n`
+          : resume.content,
+        overallScore,
+        skills: {
+          ...(resume.skills || {
+            languages: ['JavaScript', 'TypeScript', 'Python'],
+            frameworks: ['React', 'Node.js', 'Next.js'],
+            tools: ['Git', 'GitHub', 'VS Code'],
+            strengths: ['Problem Solving', 'Technical Implementation', 'Project Development'],
+            improvements: ['Documentation', 'Testing', 'Architecture']
+          }),
+          ...(skillLanguages.length > 0 ? { languages: skillLanguages } : {})
+        },
+        languageShares
       });
     }
 
     // Fallback resume generation if not provided
-    const overallScore = overallScores?.reduce((sum: number, score: any) => sum + score.averageScore, 0) / (overallScores?.length || 1) || 7.5;
-    
     const professionalResume = `# ${username}'s Professional GitResume
 
 ## Executive Summary
-Experienced developer with proven track record in software development and technical innovation. Overall assessment score: ${overallScore.toFixed(1)}/10 based on comprehensive multi-agent analysis by technical recruiters, senior engineers, and startup CTOs.
+Experienced developer with proven track record in software development and technical innovation. Overall assessment score: ${formatScore(overallScore)} based on comprehensive multi-agent analysis by technical recruiters, senior engineers, and startup CTOs.
 
 ## Technical Expertise
-- **Languages:** JavaScript, TypeScript, Python, Java
+- **Languages:** ${languageShares.length > 0
+    ? languageShares.map(share => `${share.language} (${share.percentage}%)`).join(', ')
+    : 'JavaScript, TypeScript, Python, Java'}
 - **Frameworks:** React, Node.js, Next.js, Express
 - **Tools:** Git, GitHub, VS Code, Docker
 - **Specialties:** Full-stack development, API design, database management
@@ -44,12 +76,12 @@ Experienced developer with proven track record in software development and techn
 ## Key Projects Analysis
 ${overallScores?.map((agent: any) => `
 ### ${agent.agent.replace('_', ' ').toUpperCase()} PERSPECTIVE
-**Score:** ${agent.averageScore}/10
+**Score:** ${formatScore(typeof agent.averageScore === 'number' ? agent.averageScore : null)}
 **Repositories Analyzed:** ${agent.repositoriesAnalyzed}
 **Key Recommendations:**
 ${agent.recommendations.map((rec: string) => `• ${rec}`).join('\n')}
 `).join('\n') || 'Comprehensive analysis completed across multiple repositories'}
-
+${openSourceSection ? `\n${openSourceSection}\n` : ''}
 ## Professional Strengths
 - Strong technical implementation skills
 - Consistent project development approach  
@@ -76,14 +108,15 @@ Based on comprehensive analysis, focus on:
 
     return NextResponse.json({
       resume: professionalResume,
-      overallScore: Math.round(overallScore * 10) / 10,
+      overallScore,
       skills: {
-        languages: ['JavaScript', 'TypeScript', 'Python', 'Java'],
+        languages: skillLanguages.length > 0 ? skillLanguages : ['JavaScript', 'TypeScript', 'Python', 'Java'],
         frameworks: ['React', 'Node.js', 'Next.js', 'Express'],
         tools: ['Git', 'GitHub', 'VS Code', 'Docker'],
         strengths: ['Technical Implementation', 'Project Development', 'Problem Solving', 'Modern Practices'],
         improvements: ['Documentation', 'Testing', 'Architecture', 'Business Impact']
-      }
+      },
+      languageShares
     });
 
   } catch (error) {
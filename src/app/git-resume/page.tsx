@@ -9,7 +9,8 @@ import { RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, Responsi
 
 interface ResumeData {
   resume: string;
-  overallScore: number;
+  // Null when no category has a real score
+  overallScore: number | null;
   skills?: {
     languages?: string[];
     frameworks?: string[];
@@ -19,11 +20,30 @@ interface ResumeData {
   };
 }
 
+interface AgentDescriptor {
+  id: string;
+  name: string;
+  category: string;
+  slug: string;
+  icon: string;
+  focus: string;
+  weight: number;
+}
+
 interface AnalysisData {
+  // Null when no category has a real score
+  overallDeveloperScore?: number | null;
+  // Drafted by the LLM modes; /api/resume returns it instead of its template
+  resume?: { content: string; skills: Record<string, string[]> } | null;
   overallScores: Array<{
     agent: string;
-    averageScore: number;
+    agentId: string;
+    name: string;
+    icon: string;
+    // Null when every insight in the category is a placeholder
+    averageScore: number | null;
     totalInsights: number;
+    fallbackInsights?: number;
     recommendations: string[];
   }>;
   repositoryInsights?: Array<{
@@ -34,6 +54,7 @@ interface AnalysisData {
     actionables: string[];
     patterns: string[];
     agentLearnings: string[];
+    provenance?: string;
   }>;
   careerProfile?: {
     detectedRole: string;
@@ -45,33 +66,112 @@ interface AnalysisData {
       conceptsToLearn: string[];
       portfolioImprovements: string[];
     };
+    openSource?: { summary: string; highlights: string[] } | null;
   };
   crossRepoPatterns?: any[];
   agentLearningEvolution?: any[];
+  analyses?: Record<string, Array<{
+    repository: string;
+    score: number;
+    insights: string[];
+    recommendations: string[];
+  }>>;
+  languageProfile?: {
+    languages: Array<{ language: string; bytes: number; percentage: number; repositories: string[] }>;
+    totalBytes: number;
+  } | null;
+  commitHistory?: Array<{
+    repository: string;
+    userCommits: number;
+    authorshipPercentage: number | null;
+    activeWeeks: number;
+    longestStreakWeeks: number;
+    messageQuality: { score: number };
+    mostlyOthers: boolean;
+  }>;
+  contributions?: {
+    mergedPullRequests: number;
+    reviews: number;
+    issues: number;
+    repositories: Array<{ fullName: string; url: string; stars: number; mergedPullRequests: number; reviews: number; issues: number }>;
+    highlights: Array<{ title: string; url: string; repository: string; stars: number }>;
+  } | null;
+}
+
+type AgentRunStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+interface LiveInsight {
+  repository: string;
+  category: string;
+  score: number;
+  insights: string[];
+  actionables: string[];
+  patterns: string[];
+  learnings: string[];
+  provenance?: string;
+}
+
+interface AnalysisStreamEvent {
+  seq: number;
+  type: 'agent-started' | 'agent-completed' | 'agent-failed' | 'job-completed' | 'job-failed';
+  repository?: string;
+  agent?: string;
+  insight?: LiveInsight;
+  error?: string;
+  job?: AnalysisJobStatus;
 }
 
+interface AnalysisJobStatus {
+  jobId: string;
+  username: string;
+  // Set when a signed-in user ran the analysis; only they can share it
+  owner: string | null;
+  shared: boolean;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  progress: {
+    completedAgents: number;
+    totalAgents: number;
+    percent: number;
+    repositories: Array<{
+      repository: string;
+      status: AgentRunStatus;
+      agents: Record<string, AgentRunStatus>;
+    }>;
+  };
+  result: AnalysisData | null;
+  error: string | null;
+}
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+// Fallback and mock-provider scores are placeholders, as in the report's category scores
+const isPlaceholderScore = (provenance?: string) => provenance === 'fallback' || provenance === 'mock';
+
 function GitResumeContent() {
   const searchParams = useSearchParams();
   const username = searchParams.get('username');
   const repos = searchParams.get('repos')?.split(',') || [];
+  // heuristic, llm-veteran, llm-multi-persona or demo; the server defaults to heuristic
+  const mode = searchParams.get('mode') || undefined;
+  // github, gitlab or bitbucket
+  const provider = searchParams.get('provider') || 'github';
+  const includePrivate = searchParams.get('includePrivate') === 'true';
+  // A finished report shared by its owner, opened from a share link
+  const sharedJobId = searchParams.get('job');
   
   const [step, setStep] = useState(1); // 1: Analysis, 2: Results
-  const [currentRepo, setCurrentRepo] = useState(0);
-  const [currentAgent, setCurrentAgent] = useState(0);
-  const [completedRepos, setCompletedRepos] = useState<string[]>([]);
-  const [currentlyAnalyzing, setCurrentlyAnalyzing] = useState<string>('');
+  // repository -> agent -> status, driven by the server's analysis events
+  const [agentRuns, setAgentRuns] = useState<Record<string, Record<string, AgentRunStatus>>>({});
+  const [liveInsights, setLiveInsights] = useState<LiveInsight[]>([]);
   const [analyses, setAnalyses] = useState<AnalysisData | null>(null);
   const [resume, setResume] = useState<ResumeData | null>(null);
   const [userProfile, setUserProfile] = useState<any>(null);
 
-  const agents = [
-    { name: "Code Quality", icon: "🔧", focus: "Architecture & Best Practices" },
-    { name: "Documentation", icon: "📚", focus: "Communication & Clarity" },
-    { name: "Tech Stack", icon: "⚙️", focus: "Technology & Innovation" },
-    { name: "Impact/Innovation", icon: "🚀", focus: "Business Value & Creativity" }
-  ];
+  // Agent cards come from the server's registry so disabled or added agents show up correctly
+  const [agents, setAgents] = useState<AgentDescriptor[]>([]);
 
   const [analysisStarted, setAnalysisStarted] = useState(false);
+  const [reportJob, setReportJob] = useState<AnalysisJobStatus | null>(null);
 
   const formatResumeContent = (content: string) => {
     if (!content) return null;
@@ -144,71 +244,171 @@ function GitResumeContent() {
     return <div>{elements}</div>;
   };
 
+  useEffect(() => {
+    fetch(mode ? `/api/agents?mode=${encodeURIComponent(mode)}` : '/api/agents')
+      .then(response => response.json())
+      .then(data => setAgents(data.agents || []))
+      .catch(error => console.error('Failed to load agents:', error));
+  }, [mode]);
+
   useEffect(() => {
     if (username && repos.length > 0 && !analysisStarted) {
       // Reset progress state
-      setCompletedRepos([]);
-      setCurrentlyAnalyzing('');
-      setCurrentRepo(0);
-      setCurrentAgent(0);
+      setAgentRuns({});
+      setLiveInsights([]);
       setAnalysisStarted(true);
       
       startAnalysis();
     }
   }, [username, repos, analysisStarted]);
 
+  const applyJobProgress = useCallback((job: AnalysisJobStatus) => {
+    const runs: Record<string, Record<string, AgentRunStatus>> = {};
+    (job.progress?.repositories || []).forEach(repo => {
+      runs[repo.repository] = repo.agents;
+    });
+    setAgentRuns(runs);
+  }, []);
+
+  const applyStreamEvent = useCallback((event: AnalysisStreamEvent) => {
+    const { repository, agent } = event;
+    if (!repository || !agent) return;
+
+    const status: AgentRunStatus = event.type === 'agent-started' ? 'running'
+      : event.type === 'agent-completed' ? 'completed'
+      : 'failed';
+    setAgentRuns(prev => ({ ...prev, [repository]: { ...prev[repository], [agent]: status } }));
+
+    if (event.insight) {
+      const insight = event.insight;
+      setLiveInsights(prev => [insight, ...prev]);
+    }
+  }, []);
+
+  const waitForAnalysisJob = useCallback(async (statusUrl: string): Promise<AnalysisJobStatus> => {
+    // Poll the job until the server reports a terminal state
+    while (true) {
+      const statusResponse = await fetch(statusUrl);
+      const job: AnalysisJobStatus = await statusResponse.json();
+
+      if (!statusResponse.ok) {
+        throw new Error(job.error || `Status request failed with ${statusResponse.status}`);
+      }
+
+      applyJobProgress(job);
+
+      if (job.status === 'completed' || job.status === 'failed') {
+        return job;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+  }, [applyJobProgress]);
+
+  const streamAnalysisJob = useCallback((jobId: string, statusUrl: string): Promise<AnalysisJobStatus> => {
+    return new Promise((resolve, reject) => {
+      const source = new EventSource(`/api/analyze/${jobId}/events`);
+      let settled = false;
+
+      const finish = (event: MessageEvent) => {
+        const data: AnalysisStreamEvent = JSON.parse(event.data);
+        settled = true;
+        source.close();
+        if (data.job) {
+          applyJobProgress(data.job);
+          resolve(data.job);
+        } else {
+          waitForAnalysisJob(statusUrl).then(resolve, reject);
+        }
+      };
+
+      ['agent-started', 'agent-completed', 'agent-failed'].forEach(type => {
+        source.addEventListener(type, event => applyStreamEvent(JSON.parse((event as MessageEvent).data)));
+      });
+      source.addEventListener('job-completed', event => finish(event as MessageEvent));
+      source.addEventListener('job-failed', event => finish(event as MessageEvent));
+
+      source.onerror = () => {
+        // EventSource retries on its own; only fall back to polling once it gives up
+        if (settled || source.readyState !== EventSource.CLOSED) return;
+        settled = true;
+        console.warn(`⚠️ [GitResume] Progress stream closed, falling back to polling`);
+        waitForAnalysisJob(statusUrl).then(resolve, reject);
+      };
+    });
+  }, [applyJobProgress, applyStreamEvent, waitForAnalysisJob]);
+
+  const presentResults = useCallback(async (data: AnalysisData, subject: string) => {
+    console.log(`✅ [GitResume] Analysis complete:`, data);
+    setAnalyses(data);
+    setStep(2); // Move to results immediately
+    
+    // Get user profile
+    const profileResponse = await fetch(`/api/github?${new URLSearchParams({ username: subject, provider })}`);
+    const profileData = await profileResponse.json();
+    setUserProfile(profileData.user);
+    
+    console.log(`👤 [GitResume] User profile loaded:`, profileData.user);
+    
+    // Generate resume
+    console.log(`📝 [GitResume] Generating resume...`);
+    const resumeResponse = await fetch('/api/resume', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        username: subject,
+        userProfile: profileData.user,
+        analyses: data.analyses,
+        overallScores: data.overallScores,
+        resume: data.resume,
+        languageProfile: data.languageProfile,
+        contributions: data.contributions
+      })
+    });
+
+    if (resumeResponse.ok) {
+      const resumeData = await resumeResponse.json();
+      console.log(`✅ [GitResume] Resume generated successfully`);
+      setResume(resumeData);
+      setStep(2); // Move to results step
+    } else {
+      console.error(`❌ [GitResume] Resume generation failed:`, resumeResponse.status);
+    }
+  }, [provider]);
+
   const startAnalysis = useCallback(async () => {
     try {
       console.log(`🚀 [GitResume] Starting analysis for ${repos.length} repositories`);
       console.log(`📊 [GitResume] Repositories:`, repos);
       
-      // Start real backend analysis immediately
+      // Queue the backend analysis job
       const response = await fetch('/api/analyze', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           username, 
-          repositories: repos 
+          repositories: repos,
+          mode,
+          provider,
+          includePrivate
         })
       });
 
       console.log(`📡 [GitResume] Analysis API response:`, response.status, response.statusText);
 
       if (response.ok) {
-        const data = await response.json();
-        console.log(`✅ [GitResume] Analysis complete:`, data);
-        setAnalyses(data);
-        setStep(2); // Move to results immediately
-        
-        // Get user profile
-        const profileResponse = await fetch(`/api/github?username=${username}`);
-        const profileData = await profileResponse.json();
-        setUserProfile(profileData.user);
-        
-        console.log(`👤 [GitResume] User profile loaded:`, profileData.user);
+        const { jobId, statusUrl } = await response.json();
+        console.log(`📋 [GitResume] Analysis job queued:`, jobId);
         
-        // Generate resume
-        console.log(`📝 [GitResume] Generating resume...`);
-        const resumeResponse = await fetch('/api/resume', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            username,
-            userProfile: profileData.user,
-            analyses: data.analyses,
-            overallScores: data.overallScores
-          })
-        });
-
-        if (resumeResponse.ok) {
-          const resumeData = await resumeResponse.json();
-          console.log(`✅ [GitResume] Resume generated successfully`);
-          setResume(resumeData);
-          setStep(2); // Move to results step
-        } else {
-          console.error(`❌ [GitResume] Resume generation failed:`, resumeResponse.status);
+        const job = await streamAnalysisJob(jobId, statusUrl);
+        if (job.status === 'failed' || !job.result) {
+          alert(`Analysis failed: ${job.error || 'Unknown error'}. Please try again.`);
+          return;
         }
         
+        setReportJob(job);
+        await presentResults(job.result, username || '');
+        
         console.log(`🎉 [GitResume] Complete analysis finished for ${username}!`);
       } else {
         const errorData = await response.json().catch(() => ({}));
@@ -225,7 +425,53 @@ function GitResumeContent() {
       console.error(`💥 [GitResume] Analysis error:`, error);
       alert('Analysis failed. Please check console for details and try again.');
     }
-  }, [repos, username]);
+  }, [repos, username, provider, mode, includePrivate, streamAnalysisJob, presentResults]);
+
+  const loadSharedReport = useCallback(async (jobId: string) => {
+    try {
+      const job = await waitForAnalysisJob(`/api/analyze/${jobId}`);
+      if (job.status === 'failed' || !job.result) {
+        alert(`This report is not available: ${job.error || 'the analysis failed'}`);
+        return;
+      }
+
+      setReportJob(job);
+      await presentResults(job.result, job.username);
+    } catch (error) {
+      console.error(`💥 [GitResume] Shared report error:`, error);
+      alert('This report was not found or has not been shared.');
+    }
+  }, [waitForAnalysisJob, presentResults]);
+
+  useEffect(() => {
+    if (sharedJobId && !analysisStarted) {
+      setAnalysisStarted(true);
+      loadSharedReport(sharedJobId);
+    }
+  }, [sharedJobId, analysisStarted, loadSharedReport]);
+
+  // Only the owner can flip sharing; the link opens the finished report without re-running it
+  const toggleSharing = async () => {
+    if (!reportJob) return;
+
+    const response = await fetch(`/api/analyze/${reportJob.jobId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ shared: !reportJob.shared })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      alert(data.error || 'Could not update sharing');
+      return;
+    }
+
+    setReportJob(prev => prev && { ...prev, shared: data.shared });
+    if (data.shared) {
+      const link = `${window.location.origin}/git-resume?job=${reportJob.jobId}`;
+      await navigator.clipboard?.writeText(link).catch(() => undefined);
+      alert(`Report shared. Link copied: ${link}`);
+    }
+  };
 
   const completeAnalysis = async () => {
     try {
@@ -246,12 +492,17 @@ function GitResumeContent() {
           repositories: detailData.repositories 
         })
       });
-      const analysisData = await analysisResponse.json();
+      const { statusUrl } = await analysisResponse.json();
+      const job = await waitForAnalysisJob(statusUrl);
+      const analysisData = job.result;
+      if (!analysisData) {
+        throw new Error(job.error || 'Analysis did not produce a result');
+      }
       
       setAnalyses(analysisData);
       
       // Get user profile
-      const profileResponse = await fetch(`/api/github?username=${username}`);
+      const profileResponse = await fetch(`/api/github?${new URLSearchParams({ username: username || '', provider })}`);
       const profileData = await profileResponse.json();
       setUserProfile(profileData.user);
       
@@ -263,7 +514,10 @@ function GitResumeContent() {
           username,
           userProfile: profileData.user,
           analyses: analysisData.analyses,
-          overallScores: analysisData.overallScores
+          overallScores: analysisData.overallScores,
+          resume: analysisData.resume,
+          languageProfile: analysisData.languageProfile,
+          contributions: analysisData.contributions
         })
       });
       const resumeData = await resumeResponse.json();
@@ -275,6 +529,17 @@ function GitResumeContent() {
     }
   };
 
+  const repoAgentStatuses = (repo: string) => agents.map(agent => agentRuns[repo]?.[agent.id] || 'pending');
+  const isFinished = (status: AgentRunStatus) => status === 'completed' || status === 'failed';
+  const finishedAgentRuns = repos.flatMap(repoAgentStatuses).filter(isFinished).length;
+  const totalAgentRuns = repos.length * agents.length;
+  const completedRepos = repos.filter(repo => repoAgentStatuses(repo).every(isFinished));
+  const currentlyAnalyzing = repos.find(repo => repoAgentStatuses(repo).includes('running')) || '';
+  const runningAgentIds = new Set(repos.flatMap(repo =>
+    agents.filter(agent => agentRuns[repo]?.[agent.id] === 'running').map(agent => agent.id)
+  ));
+  const currentAgent = agents.find(agent => runningAgentIds.has(agent.id));
+
   if (!username || repos.length === 0) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center">
@@ -317,7 +582,7 @@ function GitResumeContent() {
               Tiger Cloud Multi-Agent Analysis
             </h1>
             <p className="text-gray-300 mb-12">
-              3 specialized AI agents analyzing your repositories in a Tiger Cloud zero-copy fork with pg_text search
+              {agents.length} specialized AI agents analyzing your repositories in a Tiger Cloud zero-copy fork with pg_text search
             </p>
 
             {/* Current Progress */}
@@ -331,67 +596,111 @@ function GitResumeContent() {
               </h2>
               
               <div className="flex items-center justify-center mb-6">
-                <div className="text-6xl mb-4">{agents[currentAgent]?.icon || '🔄'}</div>
+                <div className="text-6xl mb-4">{currentAgent?.icon || '🔄'}</div>
               </div>
               
-              <h3 className="text-xl text-purple-400 mb-2">{agents[currentAgent]?.name || 'Initializing...'}</h3>
-              <p className="text-gray-300 mb-6">{agents[currentAgent]?.focus || 'Preparing analysis...'}</p>
+              <h3 className="text-xl text-purple-400 mb-2">{currentAgent?.name || 'Initializing...'}</h3>
+              <p className="text-gray-300 mb-6">{currentAgent?.focus || 'Preparing analysis...'}</p>
               
-              {/* Repository Progress Bar */}
+              {/* Agent Run Progress Bar */}
               <div className="w-full bg-gray-700 rounded-full h-3 mb-4">
                 <div 
                   className="bg-gradient-to-r from-purple-500 to-pink-500 h-3 rounded-full transition-all duration-500"
-                  style={{ width: `${(completedRepos.length / repos.length) * 100}%` }}
+                  style={{ width: `${totalAgentRuns > 0 ? (finishedAgentRuns / totalAgentRuns) * 100 : 0}%` }}
                 ></div>
               </div>
               
               <p className="text-gray-400 text-sm">
-                {completedRepos.length} of {repos.length} repositories analyzed
+                {completedRepos.length} of {repos.length} repositories analyzed • {finishedAgentRuns} of {totalAgentRuns} agent runs finished
               </p>
             </div>
 
             {/* Agent Status Grid */}
-            <div className="grid md:grid-cols-3 gap-4">
-              {agents.map((agent, index) => (
-                <div 
-                  key={index} 
-                  className={`bg-white/5 rounded-lg p-4 border transition-all ${
-                    index === currentAgent ? 'border-purple-400 bg-purple-500/10' : 'border-white/10'
-                  }`}
-                >
-                  <div className="text-2xl mb-2">{agent.icon}</div>
-                  <h3 className="text-white font-semibold text-sm">{agent.name}</h3>
-                  <div className="flex items-center justify-center mt-2">
-                    {index < currentAgent || (index === currentAgent && currentRepo > 0) ? (
-                      <CheckCircle className="w-4 h-4 text-green-400" />
-                    ) : index === currentAgent ? (
-                      <div className="w-2 h-2 bg-purple-400 rounded-full animate-pulse"></div>
-                    ) : (
-                      <Clock className="w-4 h-4 text-gray-500" />
-                    )}
+            <div className="grid md:grid-cols-4 gap-4">
+              {agents.map((agent) => {
+                const statuses = repos.map(repo => agentRuns[repo]?.[agent.id] || 'pending');
+                const doneCount = statuses.filter(isFinished).length;
+                
+                return (
+                  <div 
+                    key={agent.id} 
+                    className={`bg-white/5 rounded-lg p-4 border transition-all ${
+                      runningAgentIds.has(agent.id) ? 'border-purple-400 bg-purple-500/10' : 'border-white/10'
+                    }`}
+                  >
+                    <div className="text-2xl mb-2">{agent.icon}</div>
+                    <h3 className="text-white font-semibold text-sm">{agent.name}</h3>
+                    <div className="flex items-center justify-center mt-2 space-x-2">
+                      {doneCount === repos.length ? (
+                        <CheckCircle className="w-4 h-4 text-green-400" />
+                      ) : runningAgentIds.has(agent.id) ? (
+                        <div className="w-2 h-2 bg-purple-400 rounded-full animate-pulse"></div>
+                      ) : (
+                        <Clock className="w-4 h-4 text-gray-500" />
+                      )}
+                      <span className="text-xs text-gray-400">{doneCount}/{repos.length}</span>
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
 
             {/* Repository Progress */}
             <div className="mt-8">
               <h3 className="text-lg font-semibold text-white mb-4">Repository Analysis Progress</h3>
               <div className="grid md:grid-cols-4 gap-3">
-                {repos.map((repo, index) => (
-                  <div 
-                    key={index}
-                    className={`p-3 rounded-lg text-sm ${
-                      index < currentRepo ? 'bg-green-500/20 text-green-400' :
-                      index === currentRepo ? 'bg-purple-500/20 text-purple-400' :
-                      'bg-gray-700/50 text-gray-500'
-                    }`}
-                  >
-                    {index < currentRepo ? '✅' : index === currentRepo ? '🔄' : '⏳'} {repo}
-                  </div>
-                ))}
+                {repos.map((repo) => {
+                  const statuses = repoAgentStatuses(repo);
+                  const done = statuses.every(isFinished);
+                  const active = statuses.some(status => status !== 'pending');
+                  
+                  return (
+                    <div 
+                      key={repo}
+                      className={`p-3 rounded-lg text-sm ${
+                        done ? 'bg-green-500/20 text-green-400' :
+                        active ? 'bg-purple-500/20 text-purple-400' :
+                        'bg-gray-700/50 text-gray-500'
+                      }`}
+                    >
+                      {done ? '✅' : active ? '🔄' : '⏳'} {repo}
+                    </div>
+                  );
+                })}
               </div>
             </div>
+
+            {/* Live Agent Insights */}
+            {liveInsights.length > 0 && (
+              <div className="mt-8 text-left">
+                <h3 className="text-lg font-semibold text-white mb-4 text-center">Live Agent Insights</h3>
+                <div className="grid md:grid-cols-2 gap-3">
+                  <AnimatePresence initial={false}>
+                    {liveInsights.map((insight) => (
+                      <motion.div
+                        key={`${insight.repository}-${insight.category}`}
+                        initial={{ opacity: 0, y: -10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className="bg-white/5 rounded-lg p-4 border border-white/10"
+                      >
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="text-sm font-medium text-purple-300">{insight.repository} • {insight.category}</span>
+                          {isPlaceholderScore(insight.provenance) ? (
+                            <span className="text-xs text-amber-300">placeholder</span>
+                          ) : (
+                            <span className="text-white font-bold">{insight.score.toFixed(1)}/10</span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-300">{insight.insights[0] || 'Analysis completed'}</p>
+                        {insight.actionables[0] && (
+                          <p className="text-xs text-yellow-300 mt-2">💡 {insight.actionables[0]}</p>
+                        )}
+                      </motion.div>
+                    ))}
+                  </AnimatePresence>
+                </div>
+              </div>
+            )}
           </motion.div>
         )}
 
@@ -411,7 +720,7 @@ function GitResumeContent() {
                 </div>
                 <div className="text-center space-y-2">
                   <h2 className="text-2xl font-bold text-white">🐅 Tiger Cloud Analysis in Progress</h2>
-                  <p className="text-gray-300">3 specialized agents analyzing your repositories in isolated Tiger fork...</p>
+                  <p className="text-gray-300">{agents.length} specialized agents analyzing your repositories in isolated Tiger fork...</p>
                   <div className="text-sm text-gray-400">Zero-copy fork created • pg_text search active • 10-minute lifecycle</div>
                 </div>
               </div>
@@ -425,15 +734,24 @@ function GitResumeContent() {
                     🎉 Your Tiger GitResume is Ready!
                   </h1>
                   <p className="text-gray-300">
-                    Comprehensive analysis by 4 specialized AI agents with real repository code analysis and career guidance
+                    Comprehensive analysis by {analyses.overallScores.length} specialized AI agents with real repository code analysis and career guidance
                   </p>
+                  {reportJob?.owner && (
+                    <button
+                      onClick={toggleSharing}
+                      className="mt-4 inline-flex items-center space-x-2 px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors"
+                    >
+                      <Share2 className="w-4 h-4" />
+                      <span>{reportJob.shared ? 'Stop sharing' : 'Share report'}</span>
+                    </button>
+                  )}
                 </div>
 
             {/* Overall Score */}
             <div className="bg-gradient-to-r from-purple-500/10 to-pink-500/10 rounded-xl p-8 mb-8 text-center border border-purple-500/20">
               <h2 className="text-2xl font-bold text-white mb-4">Overall Developer Score</h2>
               <div className="text-7xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-pink-400 mb-4">
-                {(analyses as any)?.overallDeveloperScore?.toFixed(1) || '0.0'}/10
+                {typeof analyses?.overallDeveloperScore === 'number' ? `${analyses.overallDeveloperScore.toFixed(1)}/10` : 'Not scored'}
               </div>
               <p className="text-gray-300 mb-6">Based on comprehensive multi-agent analysis</p>
             </div>
@@ -444,7 +762,7 @@ function GitResumeContent() {
                 <h3 className="text-xl font-bold text-white mb-6 text-center">Skills Assessment</h3>
                 <ResponsiveContainer width="100%" height={300}>
                   <RadarChart data={analyses?.overallScores?.map((score: any) => ({
-                    skill: score.agent.replace('_', ' ').replace(/\b\w/g, (l: string) => l.toUpperCase()),
+                    skill: score.name || score.agent.replace('_', ' ').replace(/\b\w/g, (l: string) => l.toUpperCase()),
                     score: score.averageScore
                   })) || []}>
                     <PolarGrid />
@@ -466,7 +784,7 @@ function GitResumeContent() {
                 <h3 className="text-xl font-bold text-white mb-6 text-center">Score Breakdown</h3>
                 <ResponsiveContainer width="100%" height={300}>
                   <BarChart data={analyses?.overallScores?.map((score: any) => ({
-                    name: score.agent.replace('_', ' '),
+                    name: score.name || score.agent.replace('_', ' '),
                     score: score.averageScore
                   })) || []}>
                     <CartesianGrid strokeDasharray="3 3" />
@@ -500,6 +818,7 @@ function GitResumeContent() {
                 <div className="grid gap-6">
                   {repos.map((repo, index) => {
                     const repoInsights = (analyses as any).repositoryInsights?.filter((insight: any) => insight.repository === repo) || [];
+                    const history = analyses?.commitHistory?.find(entry => entry.repository === repo);
                     
                     return (
                       <div key={index} className="bg-white/5 rounded-xl p-6 border border-white/10">
@@ -508,8 +827,19 @@ function GitResumeContent() {
                             <Github className="w-5 h-5 mr-2 text-purple-400" />
                             {repo}
                           </h4>
-                          <div className="text-sm text-gray-400">
-                            {repoInsights.length} categories analyzed
+                          <div className="text-sm text-gray-400 text-right">
+                            <div>{repoInsights.length} categories analyzed</div>
+                            {history && (
+                              <div className="text-xs">
+                                {history.authorshipPercentage !== null && `Authored ${history.authorshipPercentage}% · `}
+                                {history.activeWeeks} active weeks · longest streak {history.longestStreakWeeks}w · messages {history.messageQuality.score}/10
+                              </div>
+                            )}
+                            {history?.mostlyOthers && (
+                              <div className="text-xs text-amber-300" title="Most commits in this repository are by other contributors">
+                                mostly written by others
+                              </div>
+                            )}
                           </div>
                         </div>
                         
@@ -518,7 +848,11 @@ function GitResumeContent() {
                             <div key={idx} className="bg-white/5 rounded-lg p-4">
                               <div className="flex items-center justify-between mb-2">
                                 <span className="text-sm font-medium text-purple-300">{insight.category}</span>
-                                <span className="text-lg font-bold text-white">{insight.score.toFixed(1)}/10</span>
+                                {isPlaceholderScore(insight.provenance) ? (
+                                  <span className="text-xs text-amber-300" title="No real model answer (fallback or offline mock); excluded from scores">placeholder</span>
+                                ) : (
+                                  <span className="text-lg font-bold text-white">{insight.score.toFixed(1)}/10</span>
+                                )}
                               </div>
                               
                               {/* 2-3 line analysis */}
@@ -598,13 +932,20 @@ function GitResumeContent() {
                 {analyses?.overallScores?.map((agentScore: any, index: number) => (
                   <div key={index} className="bg-white/5 rounded-lg p-4 border border-white/10">
                     <div className="flex items-center mb-3">
-                      <span className="text-2xl mr-3">{agents[index]?.icon}</span>
+                      <span className="text-2xl mr-3">{agentScore.icon || agents[index]?.icon}</span>
                       <div>
-                        <h4 className="text-white font-semibold">{agents[index]?.name}</h4>
-                        <div className="text-purple-400 font-bold">{agentScore.averageScore.toFixed(1)}/10</div>
+                        <h4 className="text-white font-semibold">{agentScore.name || agents[index]?.name}</h4>
+                        <div className="text-purple-400 font-bold">
+                          {agentScore.averageScore === null ? 'Not scored' : `${agentScore.averageScore.toFixed(1)}/10`}
+                        </div>
                       </div>
                     </div>
                     <p className="text-gray-300 text-sm mb-3">{agentScore.totalInsights} insights discovered</p>
+                    {agentScore.fallbackInsights > 0 && (
+                      <p className="text-amber-300 text-xs mb-3">
+                        {agentScore.fallbackInsights} repositor{agentScore.fallbackInsights === 1 ? 'y' : 'ies'} without a valid model answer, not scored
+                      </p>
+                    )}
                     
                     {/* Show actual detailed insights */}
                     <div className="space-y-3">
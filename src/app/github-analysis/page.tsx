@@ -1,27 +1,69 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Github, CheckCircle, Clock, ArrowLeft, ArrowRight } from 'lucide-react';
 import { motion } from 'framer-motion';
 
+interface RateLimitStatus {
+  resource: string;
+  limit: number;
+  remaining: number;
+  resetAt: string;
+}
+
+interface AuthState {
+  enabled: boolean;
+  user: { login: string; name: string | null; avatarUrl: string } | null;
+}
+
+const PROVIDER_OPTIONS = [
+  { id: 'github', name: 'GitHub' },
+  { id: 'gitlab', name: 'GitLab' },
+  { id: 'bitbucket', name: 'Bitbucket' }
+];
+
 export default function GitHubAnalysisPage() {
   const [step, setStep] = useState(1);
   const [username, setUsername] = useState('');
+  const [provider, setProvider] = useState('github');
   const [userProfile, setUserProfile] = useState(null);
   const [repositories, setRepositories] = useState([]);
   const [selectedRepos, setSelectedRepos] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
+  const [rateLimits, setRateLimits] = useState<RateLimitStatus[]>([]);
+  const [auth, setAuth] = useState<AuthState>({ enabled: false, user: null });
+  const [includePrivate, setIncludePrivate] = useState(false);
   const router = useRouter();
 
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(setAuth)
+      .catch(() => setAuth({ enabled: false, user: null }));
+  }, []);
+
+  // Private repositories are only readable for the signed-in user's own GitHub account
+  const canIncludePrivate = provider === 'github' && auth.user !== null;
+  const privateRequested = canIncludePrivate && includePrivate;
+
+  const signOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    setAuth(prev => ({ ...prev, user: null }));
+    setIncludePrivate(false);
+  };
+
   const fetchGitHubData = async () => {
     if (!username.trim()) return;
     
     setLoading(true);
     try {
-      const response = await fetch(`/api/github?username=${username}`);
+      const query = new URLSearchParams({ username, provider });
+      if (privateRequested) query.set('includePrivate', 'true');
+      const response = await fetch(`/api/github?${query}`);
       const data = await response.json();
+      setRateLimits(data.rateLimits || []);
       
       if (data.error) {
         alert(data.error);
@@ -51,6 +93,8 @@ export default function GitHubAnalysisPage() {
       username,
       repos: selectedRepos.join(',')
     });
+    if (provider !== 'github') params.set('provider', provider);
+    if (privateRequested) params.set('includePrivate', 'true');
     router.push(`/git-resume?${params.toString()}`);
   };
 
@@ -62,6 +106,17 @@ export default function GitHubAnalysisPage() {
     );
   };
 
+  const renderRateLimits = () => {
+    const core = rateLimits.find(limit => limit.resource === 'core');
+    if (!core) return null;
+
+    return (
+      <p className={`text-sm text-center mb-6 ${core.remaining < core.limit * 0.1 ? 'text-amber-400' : 'text-gray-400'}`}>
+        GitHub API budget: {core.remaining}/{core.limit} requests left, resets at {new Date(core.resetAt).toLocaleTimeString()}
+      </p>
+    );
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
       {/* Header */}
@@ -111,15 +166,27 @@ export default function GitHubAnalysisPage() {
             animate={{ opacity: 1, y: 0 }}
             className="max-w-md mx-auto text-center"
           >
-            <h2 className="text-2xl font-bold text-white mb-6">Enter Your GitHub Username</h2>
+            <h2 className="text-2xl font-bold text-white mb-6">
+              Enter Your {PROVIDER_OPTIONS.find(option => option.id === provider)?.name} Username
+            </h2>
             <p className="text-gray-300 mb-8">
               Tiger Cloud will create a zero-copy fork and deploy 3 AI agents to analyze your repositories
             </p>
             
             <div className="space-y-4">
+              <select
+                value={provider}
+                onChange={(e) => setProvider(e.target.value)}
+                className="w-full px-6 py-4 text-lg bg-white/10 backdrop-blur-sm text-white border border-white/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-400"
+              >
+                {PROVIDER_OPTIONS.map(option => (
+                  <option key={option.id} value={option.id} className="bg-gray-900">{option.name}</option>
+                ))}
+              </select>
+
               <input
                 type="text"
-                placeholder="GitHub username"
+                placeholder="Username"
                 value={username}
                 onChange={(e) => setUsername(e.target.value)}
                 onKeyPress={(e) => e.key === 'Enter' && fetchGitHubData()}
@@ -144,6 +211,40 @@ export default function GitHubAnalysisPage() {
               <p className="text-gray-400 text-sm">
                 Try: octocat, torvalds, or your own username
               </p>
+
+              {auth.enabled && (
+                <div className="text-sm text-gray-300 space-y-2">
+                  {auth.user ? (
+                    <>
+                      <p>
+                        Signed in as <span className="text-white font-semibold">{auth.user.login}</span>{' '}
+                        <button onClick={signOut} className="text-purple-300 hover:text-white underline">
+                          Sign out
+                        </button>
+                      </p>
+                      {canIncludePrivate && (
+                        <label className="flex items-center justify-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={includePrivate}
+                            onChange={(e) => {
+                              setIncludePrivate(e.target.checked);
+                              if (e.target.checked) setUsername(auth.user?.login || username);
+                            }}
+                          />
+                          <span>Include my private repositories</span>
+                        </label>
+                      )}
+                    </>
+                  ) : (
+                    <a href="/api/auth/login?returnTo=/github-analysis" className="text-purple-300 hover:text-white underline">
+                      Sign in with GitHub to include private repositories
+                    </a>
+                  )}
+                </div>
+              )}
+
+              {renderRateLimits()}
             </div>
           </motion.div>
         )}
@@ -178,6 +279,8 @@ export default function GitHubAnalysisPage() {
             <h2 className="text-3xl font-bold text-white text-center mb-8">
               Select Your Best Repositories
             </h2>
+            {renderRateLimits()}
+
             <p className="text-gray-300 text-center mb-8">
               Choose 4-6 repositories that best showcase your skills. We've pre-selected your top repositories based on activity and engagement.
             </p>
@@ -200,6 +303,15 @@ export default function GitHubAnalysisPage() {
                     )}
                   </div>
                   
+                  {(repo.private || repo.fork || repo.archived || repo.is_template) && (
+                    <div className="flex gap-2 mb-3">
+                      {repo.private && <span className="text-xs bg-red-500/20 text-red-300 px-2 py-0.5 rounded">Private</span>}
+                      {repo.fork && <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-0.5 rounded">Fork</span>}
+                      {repo.archived && <span className="text-xs bg-yellow-500/20 text-yellow-300 px-2 py-0.5 rounded">Archived</span>}
+                      {repo.is_template && <span className="text-xs bg-green-500/20 text-green-300 px-2 py-0.5 rounded">Template</span>}
+                    </div>
+                  )}
+                  
                   <p className="text-gray-300 text-sm mb-4 line-clamp-2">
                     {repo.description || 'No description available'}
                   </p>
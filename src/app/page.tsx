@@ -17,6 +17,7 @@ export default function Home() {
           <div className="hidden md:flex space-x-6">
             <a href="#features" className="text-gray-300 hover:text-white transition-colors">Features</a>
             <a href="#how-it-works" className="text-gray-300 hover:text-white transition-colors">How It Works</a>
+            <Link href="/team-analysis" className="text-gray-300 hover:text-white transition-colors">Teams</Link>
             <Link href="/github-analysis" className="bg-purple-500 px-4 py-2 rounded-lg text-white hover:bg-purple-600 transition-colors">
               Get Started
             </Link>
@@ -0,0 +1,386 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Github, Clock, ArrowLeft, Users, AlertTriangle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, ResponsiveContainer, Legend } from 'recharts';
+
+interface Maturity {
+  score: number;
+  level: 'minimal' | 'basic' | 'established';
+  signals: string[];
+  gaps: string[];
+}
+
+interface OrganizationReport {
+  organization: { login: string; name: string | null; description: string | null; html_url: string };
+  agents: Array<{ slug: string; name: string; icon: string }>;
+  members: Array<{
+    login: string;
+    repositories: string[];
+    overallScore: number | null;
+    categoryScores: Record<string, number | null>;
+    languages: string[];
+    frameworks: string[];
+    detectedRole: string | null;
+    error: string | null;
+  }>;
+  totalMembers: number;
+  repositories: Array<{ repository: string; htmlUrl: string; stars: number; documentation: Maturity; testing: Maturity }>;
+  techStackMatrix: Array<{ technology: string; kind: 'language' | 'framework'; repositories: string[]; members: string[] }>;
+  skillCoverage: {
+    categories: Array<{ category: string; slug: string; teamAverage: number | null; bestScore: number | null; strongestMember: string | null; strongMembers: string[]; gap: boolean }>;
+    technologyGaps: Array<{ technology: string; repositories: string[]; members: string[]; risk: 'uncovered' | 'single-member' }>;
+  };
+  sharedPatterns: Array<{ pattern: string; members: string[] }>;
+}
+
+interface OrganizationJobStatus {
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  progress: { completedMembers: number; totalMembers: number; currentMember: string | null; percent: number };
+  result: OrganizationReport | null;
+  error: string | null;
+}
+
+const LEVEL_STYLES: Record<Maturity['level'], string> = {
+  minimal: 'bg-red-500/20 text-red-300',
+  basic: 'bg-yellow-500/20 text-yellow-300',
+  established: 'bg-green-500/20 text-green-300'
+};
+
+// Rows beyond this are rarely more than one-off scripts
+const MATRIX_ROWS = 15;
+const JOB_POLL_INTERVAL_MS = 2000;
+
+export default function TeamAnalysisPage() {
+  const [org, setOrg] = useState('');
+  const [report, setReport] = useState<OrganizationReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<OrganizationJobStatus['progress'] | null>(null);
+
+  const waitForOrganizationJob = async (statusUrl: string): Promise<OrganizationJobStatus> => {
+    // Poll the job until the server reports a terminal state
+    while (true) {
+      const statusResponse = await fetch(statusUrl);
+      const job = await statusResponse.json();
+
+      if (!statusResponse.ok) {
+        throw new Error(job.error || `Status request failed with ${statusResponse.status}`);
+      }
+
+      setProgress(job.progress);
+
+      if (job.status === 'completed' || job.status === 'failed') {
+        return job;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+  };
+
+  const fetchOrganization = async () => {
+    if (!org.trim()) return;
+
+    setLoading(true);
+    setProgress(null);
+    try {
+      const response = await fetch('/api/org', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ org: org.trim() })
+      });
+      const data = await response.json();
+
+      if (data.error) {
+        alert(data.error);
+        return;
+      }
+
+      const job = await waitForOrganizationJob(data.statusUrl);
+      if (!job.result) {
+        alert(job.error || 'The organization analysis did not produce a report');
+        return;
+      }
+
+      setReport(job.result);
+    } catch (error) {
+      console.error('Error analyzing organization:', error);
+      alert('Failed to analyze the organization. Please try again.');
+    } finally {
+      setLoading(false);
+      setProgress(null);
+    }
+  };
+
+  const renderMaturity = (maturity: Maturity) => (
+    <div title={[...maturity.signals, ...maturity.gaps.map(gap => `Missing: ${gap}`)].join('\n')}>
+      <span className={`text-xs px-2 py-0.5 rounded ${LEVEL_STYLES[maturity.level]}`}>{maturity.level}</span>
+      <span className="ml-2 text-gray-300">{maturity.score.toFixed(1)}</span>
+    </div>
+  );
+
+  const analyzedMembers = report?.members.filter(member => !member.error) || [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+      {/* Header */}
+      <header className="container mx-auto px-6 py-8">
+        <nav className="flex items-center justify-between">
+          <Link href="/" className="flex items-center space-x-2">
+            <Github className="h-8 w-8 text-purple-400" />
+            <span className="text-2xl font-bold text-white">GitResume</span>
+          </Link>
+          <Link href="/" className="flex items-center space-x-2 text-gray-300 hover:text-white transition-colors">
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back to Home</span>
+          </Link>
+        </nav>
+      </header>
+
+      <div className="container mx-auto px-6 py-12">
+        {/* Organization Input */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="max-w-md mx-auto text-center mb-12"
+        >
+          <h1 className="text-4xl font-bold text-white mb-4">Team Analysis</h1>
+          <p className="text-gray-300 mb-8">
+            Analyze a GitHub organization&apos;s public members and repositories for tech stack, maturity and skill gaps
+          </p>
+
+          <div className="space-y-4">
+            <input
+              type="text"
+              placeholder="Organization"
+              value={org}
+              onChange={(e) => setOrg(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && fetchOrganization()}
+              className="w-full px-6 py-4 text-lg bg-white/10 backdrop-blur-sm text-white placeholder-gray-400 border border-white/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-400"
+            />
+
+            <button
+              onClick={fetchOrganization}
+              disabled={loading || !org.trim()}
+              className="w-full px-6 py-4 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold rounded-lg hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              {loading ? (
+                <div className="flex items-center justify-center">
+                  <Clock className="w-5 h-5 mr-2 animate-spin" />
+                  {progress?.currentMember
+                    ? `Analyzing ${progress.currentMember} (${progress.completedMembers + 1} of ${progress.totalMembers})...`
+                    : 'Analyzing members and repositories...'}
+                </div>
+              ) : (
+                'Analyze Organization'
+              )}
+            </button>
+
+            <p className="text-gray-400 text-sm">
+              Every member is analyzed in turn, so large teams take a few minutes the first time
+            </p>
+          </div>
+        </motion.div>
+
+        {report && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="max-w-6xl mx-auto space-y-8"
+          >
+            {/* Organization Profile */}
+            <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 flex items-center space-x-4">
+              <Users className="w-12 h-12 text-purple-400" />
+              <div>
+                <a href={report.organization.html_url} target="_blank" rel="noopener noreferrer" className="text-2xl font-bold text-white hover:underline">
+                  {report.organization.name || report.organization.login}
+                </a>
+                {report.organization.description && <p className="text-gray-300">{report.organization.description}</p>}
+                <p className="text-gray-400 text-sm">
+                  {analyzedMembers.length} of {report.totalMembers} public members analyzed • {report.repositories.length} repositories assessed
+                </p>
+              </div>
+            </div>
+
+            {/* Skill Coverage */}
+            <div className="grid lg:grid-cols-2 gap-8">
+              <div className="bg-white/5 rounded-xl p-6">
+                <h3 className="text-xl font-bold text-white mb-6 text-center">Team Skill Coverage</h3>
+                <ResponsiveContainer width="100%" height={300}>
+                  <RadarChart data={report.skillCoverage.categories.map(category => ({
+                    skill: category.category,
+                    average: category.teamAverage,
+                    best: category.bestScore
+                  }))}>
+                    <PolarGrid />
+                    <PolarAngleAxis dataKey="skill" className="text-white text-xs" />
+                    <PolarRadiusAxis domain={[0, 10]} className="text-gray-400" />
+                    <Radar name="Team average" dataKey="average" stroke="#8b5cf6" fill="#8b5cf6" fillOpacity={0.3} strokeWidth={2} />
+                    <Radar name="Strongest member" dataKey="best" stroke="#ec4899" fill="#ec4899" fillOpacity={0.1} strokeWidth={2} />
+                    <Legend />
+                  </RadarChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="bg-white/5 rounded-xl p-6">
+                <h3 className="text-xl font-bold text-white mb-4">Skill Gaps</h3>
+                <div className="space-y-3">
+                  {report.skillCoverage.categories.map(category => (
+                    <div key={category.slug} className="flex items-start justify-between text-sm">
+                      <span className="text-white">{category.category}</span>
+                      <span className={category.gap ? 'text-amber-400' : 'text-gray-300'}>
+                        {category.gap
+                          ? category.bestScore === null
+                            ? 'Not scored'
+                            : `No strong member (best ${category.bestScore.toFixed(1)}${category.strongestMember ? `, ${category.strongestMember}` : ''})`
+                          : `${category.strongMembers.length} strong: ${category.strongMembers.join(', ')}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                {report.skillCoverage.technologyGaps.length > 0 && (
+                  <>
+                    <h4 className="text-white font-semibold mt-6 mb-3 flex items-center">
+                      <AlertTriangle className="w-4 h-4 mr-2 text-amber-400" />
+                      Technologies the team rarely uses outside these repositories
+                    </h4>
+                    <div className="flex flex-wrap gap-2">
+                      {report.skillCoverage.technologyGaps.map(gap => (
+                        <span
+                          key={gap.technology}
+                          title={`Used in ${gap.repositories.join(', ')}`}
+                          className={`text-xs px-2 py-1 rounded ${gap.risk === 'uncovered' ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/20 text-yellow-300'}`}
+                        >
+                          {gap.technology}{gap.risk === 'single-member' ? ` (only ${gap.members[0]})` : ''}
+                        </span>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {/* Members */}
+            <div className="bg-white/5 rounded-xl p-6 overflow-x-auto">
+              <h3 className="text-xl font-bold text-white mb-4 flex items-center">
+                <Users className="w-5 h-5 mr-2 text-purple-400" />
+                Members
+              </h3>
+              <table className="w-full text-sm text-left">
+                <thead className="text-gray-400">
+                  <tr>
+                    <th className="py-2 pr-4">Member</th>
+                    <th className="py-2 pr-4">Overall</th>
+                    {report.agents.map(agent => (
+                      <th key={agent.slug} className="py-2 pr-4" title={agent.name}>{agent.icon}</th>
+                    ))}
+                    <th className="py-2 pr-4">Languages</th>
+                    <th className="py-2">Role</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-200">
+                  {report.members.map(member => (
+                    <tr key={member.login} className="border-t border-white/10">
+                      <td className="py-2 pr-4">
+                        <span title={member.repositories.join(', ')}>{member.login}</span>
+                      </td>
+                      {member.error ? (
+                        <td colSpan={report.agents.length + 3} className="py-2 text-gray-500">{member.error}</td>
+                      ) : (
+                        <>
+                          <td className="py-2 pr-4 font-semibold">{member.overallScore?.toFixed(1)}</td>
+                          {report.agents.map(agent => (
+                            <td key={agent.slug} className="py-2 pr-4">{member.categoryScores[agent.slug]?.toFixed(1) ?? '–'}</td>
+                          ))}
+                          <td className="py-2 pr-4">{member.languages.slice(0, 4).join(', ')}</td>
+                          <td className="py-2">{member.detectedRole || '–'}</td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Tech Stack Matrix */}
+            <div className="bg-white/5 rounded-xl p-6 overflow-x-auto">
+              <h3 className="text-xl font-bold text-white mb-4">Tech Stack Matrix</h3>
+              <table className="w-full text-sm text-left">
+                <thead className="text-gray-400">
+                  <tr>
+                    <th className="py-2 pr-4">Technology</th>
+                    {report.repositories.map(repo => (
+                      <th key={repo.repository} className="py-2 pr-4 whitespace-nowrap">{repo.repository}</th>
+                    ))}
+                    <th className="py-2">Members</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-200">
+                  {report.techStackMatrix.slice(0, MATRIX_ROWS).map(row => (
+                    <tr key={row.technology} className="border-t border-white/10">
+                      <td className="py-2 pr-4">
+                        {row.technology}
+                        <span className="ml-2 text-xs text-gray-500">{row.kind}</span>
+                      </td>
+                      {report.repositories.map(repo => (
+                        <td key={repo.repository} className="py-2 pr-4 text-center">
+                          {row.repositories.includes(repo.repository) ? '●' : ''}
+                        </td>
+                      ))}
+                      <td className="py-2" title={row.members.join(', ')}>{row.members.length}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Repository Maturity */}
+            <div className="bg-white/5 rounded-xl p-6 overflow-x-auto">
+              <h3 className="text-xl font-bold text-white mb-4">Documentation & Testing Maturity</h3>
+              <table className="w-full text-sm text-left">
+                <thead className="text-gray-400">
+                  <tr>
+                    <th className="py-2 pr-4">Repository</th>
+                    <th className="py-2 pr-4">Documentation</th>
+                    <th className="py-2 pr-4">Testing</th>
+                    <th className="py-2">Next step</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-200">
+                  {report.repositories.map(repo => (
+                    <tr key={repo.repository} className="border-t border-white/10">
+                      <td className="py-2 pr-4">
+                        <a href={repo.htmlUrl} target="_blank" rel="noopener noreferrer" className="hover:text-white">{repo.repository}</a>
+                      </td>
+                      <td className="py-2 pr-4">{renderMaturity(repo.documentation)}</td>
+                      <td className="py-2 pr-4">{renderMaturity(repo.testing)}</td>
+                      <td className="py-2 text-gray-400">
+                        {(repo.testing.score <= repo.documentation.score ? repo.testing.gaps : repo.documentation.gaps)[0] || '–'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Shared Patterns */}
+            {report.sharedPatterns.length > 0 && (
+              <div className="bg-white/5 rounded-xl p-6">
+                <h3 className="text-xl font-bold text-white mb-4">Patterns Across the Team</h3>
+                <div className="flex flex-wrap gap-2">
+                  {report.sharedPatterns.map(pattern => (
+                    <span key={pattern.pattern} title={pattern.members.join(', ')} className="text-xs bg-purple-500/20 text-purple-300 px-2 py-1 rounded">
+                      {pattern.pattern} × {pattern.members.length}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
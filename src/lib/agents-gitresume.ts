@@ -1,4 +1,9 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { GitHubRepo } from './github';
+import { LLMProvider, getLLMProvider } from './llm-provider';
+import { EvidenceSummary, RepositoryEvidence, buildRepositoryEvidence, formatCitedRecommendations, summarizeEvidence } from './repository-evidence';
+import { PromptReference, getPromptTemplate, renderPrompt, toPromptReference } from './prompt-templates';
+import { RepositorySnapshot } from './repository-snapshot';
+import { GROUNDED_SCORE_SCHEMA, GroundedScoreOutput, OutputProvenance, SchemaNode, generateStructured, isPlaceholderProvenance } from './structured-output';
 import { TigerGitResumeManager } from './tiger-gitresume';
 
 interface AgentAnalysis {
@@ -6,80 +11,149 @@ interface AgentAnalysis {
   reasoning: string;
   recommendations: string[];
   data: any;
+  provenance: OutputProvenance;
+  // Template the persona was prompted with, recorded even when the answer fell back
+  prompt?: PromptReference;
 }
 
-interface RepoAnalysis {
+export interface RepoAnalysis {
   repoName: string;
   technicalRecruiter: AgentAnalysis;
   seniorEngineer: AgentAnalysis;
   startupCTO: AgentAnalysis;
 }
 
+interface ResumeOutput {
+  content: string;
+  skills: Record<string, string[]>;
+}
+
+export interface PersonaResume extends ResumeOutput {
+  provenance: OutputProvenance;
+  prompt: PromptReference;
+}
+
+export interface PersonaAnalysisResult {
+  sessionId: string;
+  // null when every persona fell back
+  overallScore: number | null;
+  analyses: RepoAnalysis[];
+  evidence: EvidenceSummary[];
+  resume: PersonaResume;
+  repositoryCount: number;
+  agentCount: number;
+}
+
+const RESUME_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    content: { type: 'string', minLength: 1, description: 'formatted resume text' },
+    skills: {
+      type: 'object',
+      properties: {
+        languages: { type: 'array', items: { type: 'string' } },
+        frameworks: { type: 'array', items: { type: 'string' } },
+        tools: { type: 'array', items: { type: 'string' } },
+        strengths: { type: 'array', items: { type: 'string' } },
+        improvements: { type: 'array', items: { type: 'string' } }
+      }
+    }
+  },
+  required: ['content', 'skills']
+};
+
+type PersonaType = 'technical_recruiter' | 'senior_engineer' | 'startup_cto';
+
+const PERSONA_TEMPLATES: Record<PersonaType, string> = {
+  technical_recruiter: 'technical-recruiter',
+  senior_engineer: 'senior-engineer',
+  startup_cto: 'startup-cto'
+};
+
 export class GitResumeAgentSystem {
-  private model: any;
+  private llm: LLMProvider;
   private tigerManager: TigerGitResumeManager;
+  private forceRefresh = false;
 
-  constructor() {
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-    this.model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+  constructor(llm: LLMProvider = getLLMProvider()) {
+    this.llm = llm;
     this.tigerManager = new TigerGitResumeManager();
   }
 
-  async analyzeRepositories(username: string, repositories: any[]): Promise<any> {
+  async analyzeRepositories(username: string, snapshots: RepositorySnapshot[], options: { forceRefresh?: boolean } = {}): Promise<PersonaAnalysisResult> {
     console.log(`🚀 Starting professional GitResume analysis for ${username}`);
+    this.forceRefresh = options.forceRefresh ?? false;
+    const repositories = snapshots.map(snapshot => ({ ...snapshot.info, name: snapshot.repo }) as GitHubRepo);
     
-    // Initialize Tiger Cloud
-    await this.tigerManager.initializeDatabase();
-    
-    // Create session
-    const sessionId = await this.tigerManager.createSession(username);
+    // Initialize Tiger Cloud; without it the personas still run, results just aren't stored there
+    let sessionId = `local_${username}_${Date.now()}`;
+    let persist = false;
+    try {
+      await this.tigerManager.initializeDatabase();
+      sessionId = await this.tigerManager.createSession(username);
+      persist = true;
+    } catch (error) {
+      console.log('⚠️ Tiger Cloud unavailable, running persona analysis without session storage:', error);
+    }
     
     try {
       // Step 1: Store all repository data
-      console.log(`💾 Storing ${repositories.length} repositories in Tiger Cloud...`);
-      for (const repo of repositories) {
-        await this.tigerManager.storeRepositoryData(sessionId, repo.name, repo);
+      if (persist) {
+        console.log(`💾 Storing ${repositories.length} repositories in Tiger Cloud...`);
+        for (const repo of repositories) {
+          await this.tigerManager.storeRepositoryData(sessionId, repo.name, repo);
+        }
       }
 
       // Step 2: Analyze each repository with all agents
       const allAnalyses: RepoAnalysis[] = [];
+      const evidenceSummaries: EvidenceSummary[] = [];
       
       for (let i = 0; i < repositories.length; i++) {
         const repo = repositories[i];
         console.log(`🔍 [${i + 1}/${repositories.length}] Analyzing ${repo.name}...`);
+        const evidence = await buildRepositoryEvidence(snapshots[i]);
+        evidenceSummaries.push(summarizeEvidence(evidence));
         
         const repoAnalysis: RepoAnalysis = {
           repoName: repo.name,
-          technicalRecruiter: await this.analyzeTechnicalRecruiter(repo),
-          seniorEngineer: await this.analyzeSeniorEngineer(repo),
-          startupCTO: await this.analyzeStartupCTO(repo)
+          technicalRecruiter: await this.runPersona('technical_recruiter', repo, evidence),
+          seniorEngineer: await this.runPersona('senior_engineer', repo, evidence),
+          startupCTO: await this.runPersona('startup_cto', repo, evidence)
         };
 
         // Store each agent analysis
-        await this.tigerManager.storeAgentAnalysis(sessionId, repo.name, 'technical_recruiter', repoAnalysis.technicalRecruiter);
-        await this.tigerManager.storeAgentAnalysis(sessionId, repo.name, 'senior_engineer', repoAnalysis.seniorEngineer);
-        await this.tigerManager.storeAgentAnalysis(sessionId, repo.name, 'startup_cto', repoAnalysis.startupCTO);
+        if (persist) {
+          await this.tigerManager.storeAgentAnalysis(sessionId, repo.name, 'technical_recruiter', repoAnalysis.technicalRecruiter);
+          await this.tigerManager.storeAgentAnalysis(sessionId, repo.name, 'senior_engineer', repoAnalysis.seniorEngineer);
+          await this.tigerManager.storeAgentAnalysis(sessionId, repo.name, 'startup_cto', repoAnalysis.startupCTO);
+        }
         
         allAnalyses.push(repoAnalysis);
         console.log(`✅ [${i + 1}/${repositories.length}] ${repo.name} analysis complete`);
       }
 
       // Step 3: Generate comprehensive resume
-      const finalResume = await this.generateProfessionalResume(username, allAnalyses);
+      const finalResume = await this.generateProfessionalResume(username, allAnalyses, snapshots.map(snapshot => snapshot.commitSha).join(','));
       
       // Step 4: Store final resume
       const overallScore = this.calculateOverallScore(allAnalyses);
-      await this.tigerManager.storeFinalResume(sessionId, overallScore, finalResume.content, finalResume.skills);
-
-      // Step 5: Schedule cleanup (30 minutes)
-      setTimeout(async () => {
-        await this.tigerManager.cleanupExpiredSessions();
-      }, 30 * 60 * 1000);
+      if (persist) {
+        if (overallScore !== null) {
+          await this.tigerManager.storeFinalResume(sessionId, overallScore, finalResume.content, finalResume.skills);
+        }
+
+        // Step 5: Schedule cleanup (30 minutes)
+        setTimeout(async () => {
+          await this.tigerManager.cleanupExpiredSessions();
+        }, 30 * 60 * 1000);
+      }
 
       return {
         sessionId,
         overallScore,
         analyses: allAnalyses,
+        evidence: evidenceSummaries,
         resume: finalResume,
         repositoryCount: repositories.length,
         agentCount: 3
@@ -91,155 +165,29 @@ export class GitResumeAgentSystem {
     }
   }
 
-  private async analyzeTechnicalRecruiter(repo: any): Promise<AgentAnalysis> {
-    const prompt = `
-You are a Senior Technical Recruiter at a top tech company (Google/Meta/Amazon level). 
-Analyze this GitHub repository from a hiring perspective:
-
-Repository: ${repo.name}
-Description: ${repo.description || 'No description'}
-Language: ${repo.language}
-Stars: ${repo.stargazers_count}
-Forks: ${repo.forks_count}
-Size: ${repo.size}KB
-Last Updated: ${repo.updated_at}
-
-As a technical recruiter, evaluate this repository on:
-1. **Marketability** - How impressive is this to hiring managers?
-2. **Technical Depth** - Does this show real engineering skills?
-3. **Professional Presentation** - Is this portfolio-ready?
-4. **Industry Relevance** - Is this technology stack in demand?
-5. **Career Impact** - Would this help land interviews?
-
-Provide:
-- Score: 1-10 (be realistic, most repos are 5-7)
-- Detailed reasoning (2-3 sentences explaining the score)
-- 3 specific recommendations for improvement
-
-Return JSON format:
-{
-  "score": number,
-  "reasoning": "string",
-  "recommendations": ["rec1", "rec2", "rec3"]
-}`;
-
-    try {
-      const result = await this.model.generateContent(prompt);
-      const response = result.response.text();
-      return this.parseAgentResponse(response);
-    } catch (error) {
-      console.error('Technical Recruiter analysis failed:', error);
-      return this.getFallbackAnalysis('technical_recruiter', repo);
-    }
-  }
-
-  private async analyzeSeniorEngineer(repo: any): Promise<AgentAnalysis> {
-    const prompt = `
-You are a Senior Software Engineer (10+ years) at a leading tech company.
-Analyze this GitHub repository from a technical excellence perspective:
-
-Repository: ${repo.name}
-Description: ${repo.description || 'No description'}
-Language: ${repo.language}
-Stars: ${repo.stargazers_count}
-Forks: ${repo.forks_count}
-Size: ${repo.size}KB
-Last Updated: ${repo.updated_at}
-
-As a senior engineer, evaluate this repository on:
-1. **Code Quality** - Architecture, patterns, best practices
-2. **Technical Complexity** - Sophistication of implementation
-3. **Engineering Maturity** - Testing, documentation, CI/CD
-4. **Problem Solving** - Innovation and technical depth
-5. **Scalability** - Production-ready considerations
-
-Provide:
-- Score: 1-10 (be technical and precise)
-- Detailed reasoning (focus on technical aspects)
-- 3 specific technical recommendations
-
-Return JSON format:
-{
-  "score": number,
-  "reasoning": "string",
-  "recommendations": ["rec1", "rec2", "rec3"]
-}`;
-
-    try {
-      const result = await this.model.generateContent(prompt);
-      const response = result.response.text();
-      return this.parseAgentResponse(response);
-    } catch (error) {
-      console.error('Senior Engineer analysis failed:', error);
-      return this.getFallbackAnalysis('senior_engineer', repo);
-    }
-  }
-
-  private async analyzeStartupCTO(repo: any): Promise<AgentAnalysis> {
-    const prompt = `
-You are a Startup CTO who has built and scaled multiple successful products.
-Analyze this GitHub repository from a business and leadership perspective:
-
-Repository: ${repo.name}
-Description: ${repo.description || 'No description'}
-Language: ${repo.language}
-Stars: ${repo.stargazers_count}
-Forks: ${repo.forks_count}
-Size: ${repo.size}KB
-Last Updated: ${repo.updated_at}
-
-As a startup CTO, evaluate this repository on:
-1. **Business Value** - Does this solve real problems?
-2. **Product Thinking** - User-focused development approach
-3. **Technical Leadership** - Can this person lead engineering teams?
-4. **Innovation** - Creative solutions and forward-thinking
-5. **Execution** - Ability to ship and iterate
-
-Provide:
-- Score: 1-10 (focus on leadership and business impact)
-- Detailed reasoning (business and leadership perspective)
-- 3 strategic recommendations for growth
-
-Return JSON format:
-{
-  "score": number,
-  "reasoning": "string",
-  "recommendations": ["rec1", "rec2", "rec3"]
-}`;
+  // Validated against the shared score schema; only a failed retry budget lands on the canned fallback
+  private async runPersona(agentType: PersonaType, repo: GitHubRepo, evidence: RepositoryEvidence): Promise<AgentAnalysis> {
+    const template = getPromptTemplate(PERSONA_TEMPLATES[agentType]);
+    const prompt = renderPrompt(template, { evidence: evidence.text });
+    const result = await generateStructured<GroundedScoreOutput>(this.llm, prompt, GROUNDED_SCORE_SCHEMA, {
+      fallback: () => {
+        const fallback = this.getFallbackAnalysis(agentType, repo);
+        return { ...fallback, recommendations: fallback.recommendations.map(text => ({ text, source: '' })) };
+      },
+      cache: { template: template.id, version: template.version, commitSha: evidence.commitSha, forceRefresh: this.forceRefresh }
+    });
 
-    try {
-      const result = await this.model.generateContent(prompt);
-      const response = result.response.text();
-      return this.parseAgentResponse(response);
-    } catch (error) {
-      console.error('Startup CTO analysis failed:', error);
-      return this.getFallbackAnalysis('startup_cto', repo);
+    if (result.provenance === 'fallback') {
+      console.error(`${agentType} analysis of ${repo.name} fell back after ${result.attempts} attempts:`, result.errors);
     }
-  }
 
-  private parseAgentResponse(response: string): AgentAnalysis {
-    try {
-      // Extract JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          score: Math.max(1, Math.min(10, parsed.score || 5)),
-          reasoning: parsed.reasoning || 'Analysis completed successfully',
-          recommendations: parsed.recommendations || ['Continue developing', 'Add documentation', 'Improve code quality'],
-          data: parsed
-        };
-      }
-    } catch (error) {
-      console.error('Failed to parse agent response:', error);
-    }
-    
-    // Fallback parsing
     return {
-      score: 6,
-      reasoning: 'Professional analysis completed with comprehensive evaluation',
-      recommendations: ['Enhance documentation', 'Add comprehensive testing', 'Improve project structure'],
-      data: { response }
+      score: result.value.score,
+      reasoning: result.value.reasoning,
+      recommendations: formatCitedRecommendations(result.value.recommendations, evidence),
+      provenance: result.provenance,
+      prompt: toPromptReference(template),
+      data: { attempts: result.attempts, evidenceTokens: evidence.tokens, sources: evidence.sources }
     };
   }
 
@@ -267,93 +215,68 @@ Return JSON format:
       score: Math.min(8, baseScore),
       reasoning: fallback.reasoning,
       recommendations: fallback.recommendations,
-      data: { fallback: true, repo: repo.name }
+      data: { fallback: true, repo: repo.name },
+      provenance: 'fallback'
     };
   }
 
-  private calculateOverallScore(analyses: RepoAnalysis[]): number {
-    let totalScore = 0;
-    let totalAnalyses = 0;
+  // Fallbacks and mock answers are placeholders, so they never count; null when no persona produced a real score
+  private calculateOverallScore(analyses: RepoAnalysis[]): number | null {
+    const scored = analyses
+      .flatMap(repoAnalysis => [repoAnalysis.technicalRecruiter, repoAnalysis.seniorEngineer, repoAnalysis.startupCTO])
+      .filter(analysis => !isPlaceholderProvenance(analysis.provenance));
+    if (scored.length === 0) return null;
 
-    analyses.forEach(repoAnalysis => {
-      totalScore += repoAnalysis.technicalRecruiter.score;
-      totalScore += repoAnalysis.seniorEngineer.score;
-      totalScore += repoAnalysis.startupCTO.score;
-      totalAnalyses += 3;
-    });
+    return Math.round((scored.reduce((sum, analysis) => sum + analysis.score, 0) / scored.length) * 10) / 10;
+  }
 
-    return Math.round((totalScore / totalAnalyses) * 10) / 10;
+  private formatScore(analysis: AgentAnalysis): string {
+    return isPlaceholderProvenance(analysis.provenance) ? 'not scored' : `${analysis.score}/10`;
   }
 
-  private async generateProfessionalResume(username: string, analyses: RepoAnalysis[]): Promise<any> {
+  private async generateProfessionalResume(username: string, analyses: RepoAnalysis[], commitShas: string): Promise<PersonaResume> {
     const overallScore = this.calculateOverallScore(analyses);
     
-    const prompt = `
-Create a professional, production-ready GitResume for ${username} based on comprehensive analysis.
-
-Analysis Summary:
-${analyses.map(a => `
+    const template = getPromptTemplate('persona-resume');
+    const prompt = renderPrompt(template, {
+      username,
+      overallScore: overallScore === null ? 'not scored' : `${overallScore}/10`,
+      analysisSummary: analyses.map(a => {
+        const personas: Array<[string, AgentAnalysis]> = [
+          ['Technical Recruiter', a.technicalRecruiter],
+          ['Senior Engineer', a.seniorEngineer],
+          ['Startup CTO', a.startupCTO]
+        ];
+        // Placeholder reasoning is canned text, so only real assessments are passed on
+        return `
 Repository: ${a.repoName}
-- Technical Recruiter Score: ${a.technicalRecruiter.score}/10 - ${a.technicalRecruiter.reasoning}
-- Senior Engineer Score: ${a.seniorEngineer.score}/10 - ${a.seniorEngineer.reasoning}  
-- Startup CTO Score: ${a.startupCTO.score}/10 - ${a.startupCTO.reasoning}
-`).join('\n')}
+${personas.map(([name, analysis]) => isPlaceholderProvenance(analysis.provenance)
+  ? `- ${name}: not scored`
+  : `- ${name} Score: ${analysis.score}/10 - ${analysis.reasoning}`).join('\n')}
+`;
+      }).join('\n')
+    });
 
-Overall Score: ${overallScore}/10
-
-Create a professional resume that includes:
-1. **Executive Summary** - Compelling 2-3 sentence overview
-2. **Technical Skills** - Languages, frameworks, tools (extracted from repos)
-3. **Key Projects** - Highlight top repositories with business impact
-4. **Professional Strengths** - Based on agent assessments
-5. **Growth Areas** - Constructive improvement suggestions
-6. **Career Recommendations** - Next steps for professional development
-
-Make it:
-- Professional and polished
-- Specific and quantified where possible
-- Focused on real-world impact
-- Ready for job applications
-- Honest but compelling
-
-Return JSON format:
-{
-  "content": "formatted resume text",
-  "skills": {
-    "languages": [],
-    "frameworks": [],
-    "tools": [],
-    "strengths": [],
-    "improvements": []
+    const result = await generateStructured<ResumeOutput>(this.llm, prompt, RESUME_SCHEMA, {
+      fallback: () => this.getFallbackResume(username, analyses, overallScore),
+      cache: { template: template.id, version: template.version, commitSha: commitShas, forceRefresh: this.forceRefresh }
+    });
+    return { ...result.value, provenance: result.provenance, prompt: toPromptReference(template) };
   }
-}`;
-
-    try {
-      const result = await this.model.generateContent(prompt);
-      const response = result.response.text();
-      
-      // Parse the response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-    } catch (error) {
-      console.error('Resume generation failed:', error);
-    }
 
-    // Fallback resume
+  private getFallbackResume(username: string, analyses: RepoAnalysis[], overallScore: number | null): ResumeOutput {
     return {
       content: `# ${username}'s Professional GitResume
 
 ## Executive Summary
-Experienced developer with ${analyses.length} active projects demonstrating proficiency across multiple technologies. Overall technical assessment: ${overallScore}/10 based on comprehensive multi-agent analysis.
+Experienced developer with ${analyses.length} active projects demonstrating proficiency across multiple technologies. Overall technical assessment: ${overallScore === null ? 'not scored' : `${overallScore}/10 based on comprehensive multi-agent analysis`}.
 
 ## Key Projects
 ${analyses.map(a => `
 ### ${a.repoName}
-- Technical Excellence: ${a.seniorEngineer.score}/10
-- Market Readiness: ${a.technicalRecruiter.score}/10  
-- Business Impact: ${a.startupCTO.score}/10
+- Technical Excellence: ${this.formatScore(a.seniorEngineer)}
+- Market Readiness: ${this.formatScore(a.technicalRecruiter)}
+- Business Impact: ${this.formatScore(a.startupCTO)}
 `).join('\n')}
 
 ## Professional Assessment
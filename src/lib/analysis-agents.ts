@@ -0,0 +1,359 @@
+import { formatTechnology } from './framework-taxonomy';
+import { RepositorySnapshot } from './repository-snapshot';
+import type { PromptReference } from './prompt-templates';
+import type { OutputProvenance } from './structured-output';
+
+// How an insight's score was produced: rule-based agents, sample data, or an LLM (possibly a fallback)
+export type InsightProvenance = 'heuristic' | 'demo' | OutputProvenance;
+
+export interface AgentInsight {
+  repository: string;
+  category: string;
+  score: number;
+  insights: string[];
+  actionables: string[];
+  patterns: string[];
+  learnings: string[];
+  provenance?: InsightProvenance;
+  // Prompt template behind an LLM insight
+  prompt?: PromptReference;
+}
+
+export interface AnalysisAgent {
+  // Stable identifier used in job progress, events and cache keys
+  id: string;
+  name: string;
+  // Human-readable category the agent's insights are grouped under
+  category: string;
+  // Key for the category in report scores
+  slug: string;
+  icon: string;
+  focus: string;
+  // Relative weight of the category in the overall developer score
+  weight: number;
+  analyze(snapshot: RepositorySnapshot): Promise<AgentInsight>;
+}
+
+// Serializable view of an agent for API responses and the UI
+export type AgentDescriptor = Omit<AnalysisAgent, 'analyze'>;
+
+interface AgentOverride {
+  enabled?: boolean;
+  weight?: number;
+}
+
+class CodeArchitectAgent implements AnalysisAgent {
+  id = 'code-architect';
+  name = 'Code Architect';
+  category = 'Code Architecture';
+  slug = 'code-architecture';
+  icon = '🔧';
+  focus = 'Architecture & Best Practices';
+  weight = 1;
+
+  async analyze(data: RepositorySnapshot): Promise<AgentInsight> {
+    const codeFiles = data.tree.filter(f =>
+      f.path.endsWith('.js') || f.path.endsWith('.ts') || f.path.endsWith('.py') || f.path.endsWith('.java')
+    );
+
+    let score = 5.0;
+    const insights: string[] = [];
+    const actionables: string[] = [];
+    const patterns: string[] = [];
+
+    // Analyze project structure
+    const hasGoodStructure = data.tree.some(f => f.path.includes('src/') || f.path.includes('lib/'));
+    if (hasGoodStructure) {
+      score += 1.5;
+      insights.push('Well-organized project structure with clear separation of concerns');
+      patterns.push('structured-architecture');
+    } else {
+      actionables.push('Organize code into src/ or lib/ directories for better maintainability');
+    }
+
+    // Check for TypeScript usage
+    const hasTypeScript = data.languages.includes('TypeScript');
+    if (hasTypeScript) {
+      score += 1.0;
+      insights.push('Uses TypeScript for enhanced type safety and developer experience');
+      patterns.push('type-safety');
+    } else if (data.languages.includes('JavaScript')) {
+      actionables.push('Consider migrating to TypeScript for better code quality and IDE support');
+    }
+
+    // Analyze file count and complexity
+    if (codeFiles.length > 10) {
+      score += 0.5;
+      insights.push('Substantial codebase indicating complex problem-solving capabilities');
+      patterns.push('complex-project');
+    }
+
+    return {
+      repository: data.repo,
+      category: this.category,
+      score: Math.min(score, 10),
+      insights,
+      actionables,
+      patterns,
+      learnings: [`Analyzed ${codeFiles.length} code files`, `Detected ${data.languages.length} languages`]
+    };
+  }
+}
+
+class TechScoutAgent implements AnalysisAgent {
+  id = 'tech-scout';
+  name = 'Tech Scout';
+  category = 'Technology Stack';
+  slug = 'technology-stack';
+  icon = '⚙️';
+  focus = 'Technology & Frameworks';
+  weight = 1;
+
+  async analyze(data: RepositorySnapshot): Promise<AgentInsight> {
+    let score = 4.0;
+    const insights: string[] = [];
+    const actionables: string[] = [];
+    const patterns: string[] = [];
+
+    // Runtime dependencies only; dev tooling is covered below
+    const runtime = data.technologies.filter(t => !t.dev);
+
+    // Analyze tech stack modernity
+    const modernFrameworks = runtime.filter(t => t.kind === 'framework' && t.modern);
+
+    if (modernFrameworks.length > 0) {
+      score += 2.0;
+      insights.push(`Uses modern frameworks: ${modernFrameworks.map(formatTechnology).join(', ')}`);
+      patterns.push('modern-stack');
+    } else {
+      actionables.push('Consider adopting modern frameworks like React, Next.js, or Vue.js');
+    }
+
+    // Check for full-stack capabilities
+    const hasBackend = runtime.some(t => t.kind === 'framework' && t.category === 'backend');
+    const hasFrontend = runtime.some(t => t.kind === 'framework' && t.category === 'frontend');
+
+    if (hasBackend && hasFrontend) {
+      score += 1.5;
+      insights.push('Full-stack development capabilities demonstrated');
+      patterns.push('full-stack');
+    } else if (!hasBackend) {
+      actionables.push('Add backend development skills with Express.js, Django, or similar frameworks');
+    } else if (!hasFrontend) {
+      actionables.push('Develop frontend skills with React, Next.js, or Vue.js');
+    }
+
+    // Machine learning libraries
+    const mlLibraries = runtime.filter(t => t.category === 'ml');
+    if (mlLibraries.length > 0) {
+      score += 0.5;
+      insights.push(`Works with machine learning libraries: ${mlLibraries.map(formatTechnology).join(', ')}`);
+      patterns.push('ml-stack');
+    }
+
+    // Test and build tooling declared in the manifests
+    const testTools = data.technologies.filter(t => t.category === 'testing');
+    if (testTools.length > 0) {
+      insights.push(`Testing toolchain: ${testTools.map(formatTechnology).join(', ')}`);
+    }
+
+    // Language diversity
+    if (data.languages.length > 2) {
+      score += 1.0;
+      insights.push(`Multi-language proficiency: ${data.languages.join(', ')}`);
+      patterns.push('polyglot');
+    }
+
+    return {
+      repository: data.repo,
+      category: this.category,
+      score: Math.min(score, 10),
+      insights,
+      actionables,
+      patterns,
+      learnings: [
+        `Parsed ${data.dependencies.length} dependencies from ${Object.keys(data.manifests).length} manifests`,
+        `Recognized ${data.technologies.length} frameworks and libraries`,
+        `Found ${data.languages.length} programming languages`
+      ]
+    };
+  }
+}
+
+class CareerAdvisorAgent implements AnalysisAgent {
+  id = 'career-advisor';
+  name = 'Career Advisor';
+  category = 'Career Readiness';
+  slug = 'career-readiness';
+  icon = '📚';
+  focus = 'Portfolio & Hiring Readiness';
+  weight = 1;
+
+  async analyze(data: RepositorySnapshot): Promise<AgentInsight> {
+    let score = 5.0;
+    const insights: string[] = [];
+    const actionables: string[] = [];
+    const patterns: string[] = [];
+
+    // Analyze project for career signals
+    const readme = data.readme.toLowerCase();
+
+    // Check for portfolio quality
+    if (readme.length > 500) {
+      score += 1.0;
+      insights.push('Well-documented project showing professional communication skills');
+      patterns.push('professional-docs');
+    } else {
+      actionables.push('Expand project documentation to showcase communication skills to employers');
+    }
+
+    // Check for deployment/production readiness
+    const hasDeploymentConfig = data.tree.some(f =>
+      f.path.includes('docker') || f.path.includes('deploy') || f.path.includes('.yml') || f.path.includes('vercel')
+    );
+
+    if (hasDeploymentConfig) {
+      score += 1.5;
+      insights.push('Shows DevOps and deployment experience - highly valued by employers');
+      patterns.push('devops-ready');
+    } else {
+      actionables.push('Add deployment configuration (Docker, Vercel, etc.) to show production readiness');
+    }
+
+    // Check for testing
+    const hasTests = data.tree.some(f =>
+      f.path.includes('test') || f.path.includes('spec') || f.path.includes('__tests__')
+    );
+
+    if (hasTests) {
+      score += 1.0;
+      insights.push('Includes testing - demonstrates software engineering best practices');
+      patterns.push('test-driven');
+    } else {
+      actionables.push('Add unit tests to demonstrate code quality awareness');
+    }
+
+    return {
+      repository: data.repo,
+      category: this.category,
+      score: Math.min(score, 10),
+      insights,
+      actionables,
+      patterns,
+      learnings: [`README length: ${data.readme.length} chars`, `Has deployment config: ${hasDeploymentConfig}`]
+    };
+  }
+}
+
+class InnovationDetectorAgent implements AnalysisAgent {
+  id = 'innovation-detector';
+  name = 'Innovation Detector';
+  category = 'Innovation & Impact';
+  slug = 'innovation-impact';
+  icon = '🚀';
+  focus = 'Business Value & Creativity';
+  weight = 1;
+
+  async analyze(data: RepositorySnapshot): Promise<AgentInsight> {
+    let score = 4.0;
+    const insights: string[] = [];
+    const actionables: string[] = [];
+    const patterns: string[] = [];
+
+    // Check for innovative technologies
+    const innovativeTech = ['AI', 'ML', 'blockchain', 'WebGL', 'WebAssembly', 'GraphQL'];
+    const readme = data.readme.toLowerCase();
+
+    const usedInnovativeTech = innovativeTech.filter(tech =>
+      readme.includes(tech.toLowerCase()) ||
+      data.tree.some(f => f.path.toLowerCase().includes(tech.toLowerCase()))
+    );
+
+    if (usedInnovativeTech.length > 0) {
+      score += 2.0;
+      insights.push(`Incorporates cutting-edge technologies: ${usedInnovativeTech.join(', ')}`);
+      patterns.push('innovative-tech');
+    } else {
+      actionables.push('Explore emerging technologies like AI/ML, GraphQL, or WebAssembly');
+    }
+
+    // Check for API integrations
+    const hasAPIIntegration = readme.includes('api') || readme.includes('integration') ||
+                             data.tree.some(f => f.path.includes('api'));
+
+    if (hasAPIIntegration) {
+      score += 1.0;
+      insights.push('Demonstrates API integration and external service connectivity');
+      patterns.push('api-integration');
+    }
+
+    // Check for unique problem solving
+    const problemKeywords = ['solve', 'problem', 'challenge', 'solution', 'innovative'];
+    const hasProblemFocus = problemKeywords.some(keyword => readme.includes(keyword));
+
+    if (hasProblemFocus) {
+      score += 1.0;
+      insights.push('Shows problem-solving mindset and solution-oriented thinking');
+      patterns.push('problem-solver');
+    } else {
+      actionables.push('Clearly articulate the problems your projects solve in documentation');
+    }
+
+    return {
+      repository: data.repo,
+      category: this.category,
+      score: Math.min(score, 10),
+      insights,
+      actionables,
+      patterns,
+      learnings: [`Innovative tech used: ${usedInnovativeTech.length}`, `Problem-focused: ${hasProblemFocus}`]
+    };
+  }
+}
+
+const registeredAgents: AnalysisAgent[] = [
+  new CodeArchitectAgent(),
+  new TechScoutAgent(),
+  new CareerAdvisorAgent(),
+  new InnovationDetectorAgent()
+];
+
+export function registerAgent(agent: AnalysisAgent): void {
+  if (registeredAgents.some(existing => existing.id === agent.id)) {
+    throw new Error(`Agent ${agent.id} is already registered`);
+  }
+  registeredAgents.push(agent);
+}
+
+// GITRESUME_AGENTS holds per-agent overrides, e.g. {"tech-scout": {"enabled": false}, "career-advisor": {"weight": 2}}
+function loadAgentOverrides(): Record<string, AgentOverride> {
+  const raw = process.env.GITRESUME_AGENTS;
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    console.log('⚠️ GITRESUME_AGENTS is not valid JSON, using default agents');
+    return {};
+  }
+}
+
+// Registered agents with configuration applied, in registration order
+export function getEnabledAgents(): AnalysisAgent[] {
+  const overrides = loadAgentOverrides();
+
+  return registeredAgents
+    .filter(agent => overrides[agent.id]?.enabled !== false)
+    .map(agent => {
+      const weight = overrides[agent.id]?.weight;
+      if (typeof weight !== 'number' || weight < 0) return agent;
+      // Keep the prototype so analyze() still works on the reweighted copy
+      return Object.assign(Object.create(Object.getPrototypeOf(agent)), agent, { weight });
+    });
+}
+
+export function describeAgent(agent: AnalysisAgent): AgentDescriptor {
+  const { id, name, category, slug, icon, focus, weight } = agent;
+  return { id, name, category, slug, icon, focus, weight };
+}
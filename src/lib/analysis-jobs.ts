@@ -0,0 +1,332 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AgentInsight, AgentProgressEvent } from './advanced-tiger-system';
+import { AnalysisMode, DEFAULT_ANALYSIS_MODE, getAnalysisEngine, runAnalysisPipeline } from './analysis-pipeline';
+import { AnalysisReport } from './analysis-report';
+import { getDatabasePool, isDatabaseConfigured } from './database';
+import { getDataDirectory } from './data-directory';
+import type { ProviderId } from './repository-provider';
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type AgentRunStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface AnalysisJobEvent {
+  // Monotonic per job, used as the SSE event id for reconnects
+  seq: number;
+  type: AgentProgressEvent['type'] | 'job-completed' | 'job-failed';
+  at: string;
+  repository?: string;
+  agent?: string;
+  insight?: AgentInsight;
+  error?: string;
+}
+
+export interface AnalysisJob {
+  id: string;
+  username: string;
+  repositories: string[];
+  // Older jobs without a mode ran the heuristic engine
+  mode?: AnalysisMode;
+  // Optional branch/tag per repository; missing entries use the default branch
+  refs?: Record<string, string>;
+  // Older jobs without a provider analyzed GitHub repositories
+  provider?: ProviderId;
+  // Bypass cached LLM responses for this run
+  forceRefresh?: boolean;
+  // GitHub login of the signed-in user who started it; jobs without one are readable by anyone with the id
+  owner?: string;
+  // Owned jobs are readable by others only once their owner shares them
+  shared?: boolean;
+  status: AnalysisJobStatus;
+  // repository -> agent -> run status
+  progress: Record<string, Record<string, AgentRunStatus>>;
+  events: AnalysisJobEvent[];
+  result?: AnalysisReport;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface AnalysisJobStore {
+  save(job: AnalysisJob): Promise<void>;
+  get(id: string): Promise<AnalysisJob | null>;
+}
+
+// Runners rewrite their job this often, even while a single agent call is still in flight
+export const JOB_HEARTBEAT_MS = 60 * 1000;
+// An active job that has missed this many heartbeats was lost to a restart
+const STALE_JOB_MS = 5 * JOB_HEARTBEAT_MS;
+
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+class FileAnalysisJobStore implements AnalysisJobStore {
+  private directory = getDataDirectory('jobs');
+
+  async save(job: AnalysisJob): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filePath = path.join(this.directory, `${job.id}.json`);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    // Write then rename so a crash never leaves a half-written job file
+    await fs.writeFile(tempPath, JSON.stringify(job), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(id: string): Promise<AnalysisJob | null> {
+    try {
+      const content = await fs.readFile(path.join(this.directory, `${id}.json`), 'utf-8');
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+}
+
+class PostgresAnalysisJobStore implements AnalysisJobStore {
+  private ready: Promise<void> | null = null;
+
+  private ensureTable(): Promise<void> {
+    if (!this.ready) {
+      this.ready = getDatabasePool().query(`
+        CREATE TABLE IF NOT EXISTS analysis_jobs (
+          id VARCHAR(64) PRIMARY KEY,
+          username VARCHAR(255) NOT NULL,
+          status VARCHAR(20) NOT NULL,
+          job JSONB NOT NULL,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW()
+        );
+      `).then(() => undefined)
+        // Forget a failed attempt so the next call retries instead of failing forever
+        .catch(error => {
+          this.ready = null;
+          throw error;
+        });
+    }
+    return this.ready;
+  }
+
+  async save(job: AnalysisJob): Promise<void> {
+    await this.ensureTable();
+    await getDatabasePool().query(
+      `INSERT INTO analysis_jobs (id, username, status, job)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (id) DO UPDATE SET status = EXCLUDED.status, job = EXCLUDED.job, updated_at = NOW()`,
+      [job.id, job.username, job.status, JSON.stringify(job)]
+    );
+  }
+
+  async get(id: string): Promise<AnalysisJob | null> {
+    await this.ensureTable();
+    const result = await getDatabasePool().query('SELECT job FROM analysis_jobs WHERE id = $1', [id]);
+    return result.rows[0]?.job ?? null;
+  }
+}
+
+let store: AnalysisJobStore | null = null;
+
+export function getAnalysisJobStore(): AnalysisJobStore {
+  if (!store) {
+    store = isDatabaseConfigured() ? new PostgresAnalysisJobStore() : new FileAnalysisJobStore();
+  }
+  return store;
+}
+
+export function isTerminalJobStatus(status: AnalysisJobStatus): boolean {
+  return status === 'completed' || status === 'failed';
+}
+
+export function isValidJobId(id: string): boolean {
+  return JOB_ID_PATTERN.test(id);
+}
+
+export function isStaleJob(job: { status: AnalysisJobStatus; updatedAt: string }): boolean {
+  const isActive = job.status === 'queued' || job.status === 'running';
+  return isActive && Date.now() - new Date(job.updatedAt).getTime() > STALE_JOB_MS;
+}
+
+export const INTERRUPTED_JOB_ERROR = 'Analysis was interrupted before it finished. Please start a new analysis.';
+
+export interface AnalysisJobOptions {
+  refs?: Record<string, string>;
+  mode?: AnalysisMode;
+  provider?: ProviderId;
+  forceRefresh?: boolean;
+  owner?: string;
+}
+
+export async function createAnalysisJob(
+  username: string,
+  repositories: string[],
+  { refs, mode = DEFAULT_ANALYSIS_MODE, provider = 'github', forceRefresh = false, owner }: AnalysisJobOptions = {}
+): Promise<AnalysisJob> {
+  const now = new Date().toISOString();
+  const progress: AnalysisJob['progress'] = {};
+  const agents = getAnalysisEngine(mode).getAgents();
+
+  repositories.forEach(repo => {
+    progress[repo] = Object.fromEntries(agents.map(agent => [agent.id, 'pending' as AgentRunStatus]));
+  });
+
+  const job: AnalysisJob = {
+    id: randomUUID(),
+    username,
+    repositories,
+    mode,
+    refs,
+    provider,
+    forceRefresh,
+    owner,
+    shared: false,
+    status: 'queued',
+    progress,
+    events: [],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await getAnalysisJobStore().save(job);
+  console.log(`📋 Queued ${mode} analysis job ${job.id} for ${username} (${repositories.length} repositories)`);
+
+  return job;
+}
+
+export async function getAnalysisJob(id: string): Promise<AnalysisJob | null> {
+  if (!isValidJobId(id)) return null;
+
+  const job = await getAnalysisJobStore().get(id);
+  if (!job) return null;
+
+  // Reported as failed but not saved: a runner that is still alive would race the write
+  if (isStaleJob(job)) {
+    job.status = 'failed';
+    job.error = INTERRUPTED_JOB_ERROR;
+    job.events.push({ seq: job.events.length + 1, type: 'job-failed', at: job.updatedAt, error: job.error });
+  }
+
+  return job;
+}
+
+export function canViewAnalysisJob(job: AnalysisJob, login: string | null): boolean {
+  return !job.owner || Boolean(job.shared) || job.owner.toLowerCase() === login?.toLowerCase();
+}
+
+// Call only for finished jobs; a running job's progress writes would overwrite the flag
+export async function setAnalysisJobShared(job: AnalysisJob, shared: boolean): Promise<AnalysisJob> {
+  const updated = { ...job, shared, updatedAt: new Date().toISOString() };
+  await getAnalysisJobStore().save(updated);
+  console.log(`🔗 Analysis job ${job.id} ${shared ? 'shared' : 'unshared'} by ${job.owner}`);
+  return updated;
+}
+
+export async function runAnalysisJob(id: string): Promise<void> {
+  const jobStore = getAnalysisJobStore();
+  const job = await jobStore.get(id);
+
+  if (!job || job.status !== 'queued') {
+    console.log(`⚠️ Analysis job ${id} is not queued, skipping`);
+    return;
+  }
+
+  // Agents report progress concurrently, so writes are chained to keep them ordered
+  let pendingWrite: Promise<void> = Promise.resolve();
+  const persist = () => {
+    job.updatedAt = new Date().toISOString();
+    const snapshot = JSON.parse(JSON.stringify(job));
+    pendingWrite = pendingWrite
+      .then(() => jobStore.save(snapshot))
+      .catch(error => console.error(`Failed to persist analysis job ${id}:`, error));
+    return pendingWrite;
+  };
+
+  const recordEvent = (event: Omit<AnalysisJobEvent, 'seq' | 'at'>) => {
+    job.events.push({ ...event, seq: job.events.length + 1, at: new Date().toISOString() });
+  };
+
+  const onProgress = (event: AgentProgressEvent) => {
+    const repoProgress = job.progress[event.repository];
+    if (!repoProgress) return;
+
+    repoProgress[event.agent] = event.type === 'agent-started' ? 'running'
+      : event.type === 'agent-completed' ? 'completed'
+      : 'failed';
+    recordEvent(event);
+    return persist();
+  };
+
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  await persist();
+
+  // Keeps the job from looking stale while an agent call runs for minutes without reporting progress
+  const heartbeat = setInterval(persist, JOB_HEARTBEAT_MS);
+
+  try {
+    console.log(`🚀 Running analysis job ${id} for ${job.username}`);
+
+    job.result = await runAnalysisPipeline(job.username, job.repositories, {
+      mode: job.mode,
+      refs: job.refs,
+      provider: job.provider,
+      forceRefresh: job.forceRefresh,
+      onProgress
+    });
+    job.status = 'completed';
+    recordEvent({ type: 'job-completed' });
+
+    const score = job.result.overallDeveloperScore;
+    console.log(`✅ Analysis job ${id} complete: ${score === null ? 'not scored' : `${score.toFixed(1)}/10`}`);
+  } catch (error) {
+    console.error(`❌ Analysis job ${id} failed:`, error);
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : 'Unknown error';
+    recordEvent({ type: 'job-failed', error: job.error });
+  }
+
+  clearInterval(heartbeat);
+  job.completedAt = new Date().toISOString();
+  await persist();
+}
+
+// Public view of a job: status, per-repo/per-agent progress and the result once ready
+export function summarizeAnalysisJob(job: AnalysisJob) {
+  const repositories = job.repositories.map(repository => {
+    const agents = job.progress[repository] || {};
+    const statuses = Object.values(agents);
+
+    const status: AgentRunStatus = statuses.every(s => s === 'completed') ? 'completed'
+      : statuses.some(s => s === 'failed') ? 'failed'
+      : statuses.some(s => s !== 'pending') ? 'running'
+      : 'pending';
+
+    return { repository, status, agents };
+  });
+
+  const allAgentRuns = repositories.flatMap(repo => Object.values(repo.agents));
+  const completedAgents = allAgentRuns.filter(s => s === 'completed' || s === 'failed').length;
+
+  return {
+    jobId: job.id,
+    username: job.username,
+    mode: job.mode ?? DEFAULT_ANALYSIS_MODE,
+    provider: job.provider ?? 'github',
+    owner: job.owner ?? null,
+    shared: job.shared ?? false,
+    status: job.status,
+    progress: {
+      completedAgents,
+      totalAgents: allAgentRuns.length,
+      percent: allAgentRuns.length > 0 ? Math.round((completedAgents / allAgentRuns.length) * 100) : 0,
+      repositories
+    },
+    result: job.result ?? null,
+    error: job.error ?? null,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    startedAt: job.startedAt ?? null,
+    completedAt: job.completedAt ?? null
+  };
+}
@@ -0,0 +1,262 @@
+import { AdvancedTigerSystem, AgentProgressEvent, CareerProfile } from './advanced-tiger-system';
+import { AgentDescriptor, AgentInsight, InsightProvenance, describeAgent, getEnabledAgents } from './analysis-agents';
+import { AnalysisReport, buildAnalysisReport } from './analysis-report';
+import { GitResumeAgentSystem, RepoAnalysis } from './agents-gitresume';
+import { CommitHistory, analyzeCommitHistories } from './commit-history';
+import { OpenSourceContributions, fetchOpenSourceContributions } from './contributions';
+import { LanguageProfile, buildLanguageProfile } from './language-profile';
+import type { PromptReference } from './prompt-templates';
+import type { EvidenceSummary } from './repository-evidence';
+import type { ProviderId } from './repository-provider';
+import { RepositorySnapshot, buildRepositorySnapshot } from './repository-snapshot';
+import { getDefaultSourceKind, getRepositorySource } from './repository-source';
+import { TigerDemoSystem } from './tiger-demo';
+import { TigerVeteranSystem } from './tiger-veteran';
+
+export type AnalysisMode = 'heuristic' | 'llm-veteran' | 'llm-multi-persona' | 'demo';
+
+export const ANALYSIS_MODES: AnalysisMode[] = ['heuristic', 'llm-veteran', 'llm-multi-persona', 'demo'];
+
+export const DEFAULT_ANALYSIS_MODE: AnalysisMode = 'heuristic';
+
+// What every engine hands back before it is shaped into the public report
+export interface EngineResult {
+  insights: AgentInsight[];
+  careerProfile: CareerProfile | null;
+  crossRepoPatterns: unknown[];
+  learningEvolution: unknown[];
+  // agent id -> total time spent across repositories
+  agentDurations: Record<string, number>;
+  resume?: { content: string; skills: Record<string, string[]> };
+  // Token budget and sampled files per repository, for engines that prompt an LLM
+  evidence?: EvidenceSummary[];
+  // Weighted language shares across the analyzed repositories, for engines that read GitHub
+  languageProfile?: LanguageProfile;
+  // The user's authorship, cadence and commit message quality per repository
+  commitHistory?: CommitHistory[];
+  // Merged pull requests, reviews and issues on other people's repositories
+  contributions?: OpenSourceContributions | null;
+}
+
+export interface PipelineOptions {
+  mode?: AnalysisMode;
+  // Branch, tag or commit per repository (ignored by the demo engine, which reads nothing)
+  refs?: Record<string, string>;
+  // Where the user's repositories are hosted; GitHub when omitted
+  provider?: ProviderId;
+  // Ask the LLM again instead of replaying cached responses
+  forceRefresh?: boolean;
+  onProgress?: (event: AgentProgressEvent) => void | Promise<void>;
+}
+
+export interface AnalysisEngine {
+  mode: AnalysisMode;
+  description: string;
+  getAgents(): AgentDescriptor[];
+  analyze(username: string, repositories: string[], options: PipelineOptions): Promise<EngineResult>;
+}
+
+type PersonaKey = Exclude<keyof RepoAnalysis, 'repoName'>;
+
+// Result rows from the engines that score fixed categories per repository
+interface CategoryAnalysis {
+  agentType: string;
+  repoName: string;
+  score: number;
+  reasoning: string;
+  recommendations: string[];
+  provenance?: InsightProvenance;
+  prompt?: PromptReference;
+}
+
+const VETERAN_AGENTS: AgentDescriptor[] = [
+  { id: 'code_quality', name: 'Code Quality', category: 'Code Quality', slug: 'code-quality', icon: '🔧', focus: 'Maintainability & Engineering Practices', weight: 1 },
+  { id: 'documentation', name: 'Documentation', category: 'Documentation', slug: 'documentation', icon: '📝', focus: 'README & Developer Onboarding', weight: 1 },
+  { id: 'tech_stack', name: 'Tech Stack', category: 'Tech Stack', slug: 'tech-stack', icon: '⚙️', focus: 'Market-Relevant Technologies', weight: 1 },
+  { id: 'impact_innovation', name: 'Impact & Innovation', category: 'Impact & Innovation', slug: 'impact-innovation', icon: '🚀', focus: 'Business Value & Creativity', weight: 1 }
+];
+
+const PERSONA_AGENTS: AgentDescriptor[] = [
+  { id: 'technicalRecruiter', name: 'Technical Recruiter', category: 'Hiring Appeal', slug: 'hiring-appeal', icon: '🧑‍💼', focus: 'Marketability & Presentation', weight: 1 },
+  { id: 'seniorEngineer', name: 'Senior Engineer', category: 'Engineering Excellence', slug: 'engineering-excellence', icon: '👩‍💻', focus: 'Code Quality & Technical Depth', weight: 1 },
+  { id: 'startupCTO', name: 'Startup CTO', category: 'Business Impact', slug: 'business-impact', icon: '🚀', focus: 'Product Thinking & Leadership', weight: 1 }
+];
+
+function toInsight(
+  agent: AgentDescriptor,
+  repository: string,
+  score: number,
+  reasoning: string,
+  recommendations: string[],
+  provenance: InsightProvenance,
+  prompt?: PromptReference
+): AgentInsight {
+  return {
+    repository,
+    category: agent.category,
+    score,
+    insights: [reasoning],
+    actionables: recommendations,
+    patterns: [],
+    learnings: [],
+    provenance,
+    prompt
+  };
+}
+
+function fromCategoryAnalyses(analyses: CategoryAnalysis[], agents: AgentDescriptor[], defaultProvenance: InsightProvenance): AgentInsight[] {
+  return analyses.flatMap(analysis => {
+    const agent = agents.find(a => a.id === analysis.agentType);
+    const provenance = analysis.provenance ?? defaultProvenance;
+    return agent ? [toInsight(agent, analysis.repoName, analysis.score, analysis.reasoning, analysis.recommendations, provenance, analysis.prompt)] : [];
+  });
+}
+
+function emptyEngineResult(insights: AgentInsight[], resume?: EngineResult['resume'], evidence?: EvidenceSummary[]): EngineResult {
+  return { insights, careerProfile: null, crossRepoPatterns: [], learningEvolution: [], agentDurations: {}, resume, evidence };
+}
+
+// Engines without per-agent hooks report every run as started up front and completed at the end
+async function reportBatchProgress(
+  options: PipelineOptions,
+  agents: AgentDescriptor[],
+  repositories: string[],
+  run: () => Promise<EngineResult>
+): Promise<EngineResult> {
+  const emit = async (event: AgentProgressEvent) => {
+    try {
+      await options.onProgress?.(event);
+    } catch (error) {
+      console.log(`⚠️ Progress listener failed for ${event.repository}/${event.agent}:`, error);
+    }
+  };
+
+  for (const repository of repositories) {
+    for (const agent of agents) {
+      await emit({ type: 'agent-started', repository, agent: agent.id });
+    }
+  }
+
+  try {
+    const result = await run();
+    for (const repository of repositories) {
+      for (const agent of agents) {
+        const insight = result.insights.find(i => i.repository === repository && i.category === agent.category);
+        await emit(insight
+          ? { type: 'agent-completed', repository, agent: agent.id, insight }
+          : { type: 'agent-failed', repository, agent: agent.id, error: 'No result returned' });
+      }
+    }
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    for (const repository of repositories) {
+      for (const agent of agents) {
+        await emit({ type: 'agent-failed', repository, agent: agent.id, error: message });
+      }
+    }
+    throw error;
+  }
+}
+
+// The LLM engines grade what is actually in each repository, so they need its snapshot first
+function loadSnapshots(username: string, repositories: string[], { refs = {}, provider }: PipelineOptions): Promise<RepositorySnapshot[]> {
+  const source = getRepositorySource(getDefaultSourceKind(), provider);
+  return Promise.all(repositories.map(repo => buildRepositorySnapshot(username, repo, refs[repo], source)));
+}
+
+// Language shares, commit history and open source work, which the heuristic engine computes itself for its career profile
+async function profileRepositories(
+  username: string,
+  snapshots: RepositorySnapshot[],
+  { provider = 'github' }: PipelineOptions
+): Promise<Pick<EngineResult, 'languageProfile' | 'commitHistory' | 'contributions'>> {
+  const [languageProfile, commitHistory, contributions] = await Promise.all([
+    buildLanguageProfile(username, snapshots),
+    analyzeCommitHistories(username, snapshots),
+    // Contributions come from GitHub search, which knows nothing of GitLab or Bitbucket users
+    provider === 'github' ? fetchOpenSourceContributions(username) : null
+  ]);
+  return { languageProfile, commitHistory, contributions };
+}
+
+const heuristicEngine: AnalysisEngine = {
+  mode: 'heuristic',
+  description: 'Rule-based agents over the repository tree, README and manifests. No LLM required.',
+  getAgents: () => getEnabledAgents().map(describeAgent),
+  async analyze(username, repositories, options) {
+    const system = new AdvancedTigerSystem({ onProgress: options.onProgress });
+    const result = await system.analyzeWithAdvancedAgents(username, repositories, { refs: options.refs, provider: options.provider });
+    return { ...result, insights: result.insights.map(insight => ({ ...insight, provenance: 'heuristic' as const })) };
+  }
+};
+
+const veteranEngine: AnalysisEngine = {
+  mode: 'llm-veteran',
+  description: 'One veteran engineer/recruiter persona scoring four categories per repository from its README, manifests, layout, commits and source samples with the configured LLM.',
+  getAgents: () => VETERAN_AGENTS,
+  analyze(username, repositories, options) {
+    return reportBatchProgress(options, VETERAN_AGENTS, repositories, async () => {
+      const snapshots = await loadSnapshots(username, repositories, options);
+      const result = await new TigerVeteranSystem().analyzeRepositories(username, snapshots, { forceRefresh: options.forceRefresh });
+      return {
+        ...emptyEngineResult(fromCategoryAnalyses(result.analyses, VETERAN_AGENTS, 'model'), result.resume, result.evidence),
+        ...await profileRepositories(username, snapshots, options)
+      };
+    });
+  }
+};
+
+const multiPersonaEngine: AnalysisEngine = {
+  mode: 'llm-multi-persona',
+  description: 'Technical recruiter, senior engineer and startup CTO personas reviewing repository contents with the configured LLM.',
+  getAgents: () => PERSONA_AGENTS,
+  analyze(username, repositories, options) {
+    return reportBatchProgress(options, PERSONA_AGENTS, repositories, async () => {
+      const snapshots = await loadSnapshots(username, repositories, options);
+      const result = await new GitResumeAgentSystem().analyzeRepositories(username, snapshots, { forceRefresh: options.forceRefresh });
+      const insights = result.analyses.flatMap(repoAnalysis =>
+        PERSONA_AGENTS.map(agent => {
+          const analysis = repoAnalysis[agent.id as PersonaKey];
+          return toInsight(agent, repoAnalysis.repoName, analysis.score, analysis.reasoning, analysis.recommendations, analysis.provenance, analysis.prompt);
+        })
+      );
+      return { ...emptyEngineResult(insights, result.resume, result.evidence), ...await profileRepositories(username, snapshots, options) };
+    });
+  }
+};
+
+const demoEngine: AnalysisEngine = {
+  mode: 'demo',
+  description: 'Sample scores derived from repository names. No GitHub or LLM calls.',
+  getAgents: () => VETERAN_AGENTS,
+  analyze(username, repositories, options) {
+    return reportBatchProgress(options, VETERAN_AGENTS, repositories, async () => {
+      const result = await new TigerDemoSystem().analyzeRepositories(username, repositories);
+      return emptyEngineResult(fromCategoryAnalyses(result.analyses, VETERAN_AGENTS, 'demo'), result.resume);
+    });
+  }
+};
+
+const engines: Record<AnalysisMode, AnalysisEngine> = {
+  'heuristic': heuristicEngine,
+  'llm-veteran': veteranEngine,
+  'llm-multi-persona': multiPersonaEngine,
+  'demo': demoEngine
+};
+
+export function isAnalysisMode(value: unknown): value is AnalysisMode {
+  return typeof value === 'string' && (ANALYSIS_MODES as string[]).includes(value);
+}
+
+export function getAnalysisEngine(mode: AnalysisMode = DEFAULT_ANALYSIS_MODE): AnalysisEngine {
+  return engines[mode];
+}
+
+export async function runAnalysisPipeline(username: string, repositories: string[], options: PipelineOptions = {}): Promise<AnalysisReport> {
+  const engine = getAnalysisEngine(options.mode);
+  console.log(`🧭 Running ${engine.mode} analysis for ${username}`);
+
+  const result = await engine.analyze(username, repositories, options);
+  return buildAnalysisReport(result, repositories, engine.getAgents(), engine.mode);
+}
@@ -0,0 +1,133 @@
+import { AgentDescriptor, AgentInsight } from './analysis-agents';
+import type { AnalysisMode, EngineResult } from './analysis-pipeline';
+import { isPlaceholderProvenance } from './structured-output';
+
+export type AnalysisReport = ReturnType<typeof buildAnalysisReport>;
+
+function isPlaceholder(insight: AgentInsight): boolean {
+  return isPlaceholderProvenance(insight.provenance);
+}
+
+// Shapes the raw multi-agent result into the response consumed by the git-resume page
+export function buildAnalysisReport(result: EngineResult, repositories: string[], agents: AgentDescriptor[], mode: AnalysisMode) {
+  // Calculate category scores from insights, one category per registered agent; null when nothing real was scored
+  const categoryScores: Record<string, number | null> = {};
+
+  agents.forEach(agent => {
+    // LLM fallbacks and mock answers are placeholders, so they never count towards a score
+    const categoryInsights = result.insights.filter(i => i.category === agent.category && !isPlaceholder(i));
+    if (categoryInsights.length > 0) {
+      const avgScore = categoryInsights.reduce((sum, i) => sum + i.score, 0) / categoryInsights.length;
+      categoryScores[agent.slug] = Math.round(avgScore * 10) / 10;
+    } else {
+      categoryScores[agent.slug] = null;
+    }
+  });
+
+  // Unscored categories are left out and the remaining weights renormalized; null when no category was scored
+  const scoredAgents = agents.filter(agent => categoryScores[agent.slug] !== null);
+  const totalWeight = scoredAgents.reduce((sum, agent) => sum + agent.weight, 0);
+  const overallScore = totalWeight > 0
+    ? scoredAgents.reduce((sum, agent) => sum + (categoryScores[agent.slug] ?? 0) * agent.weight, 0) / totalWeight
+    : null;
+
+  return {
+    // Core analysis results
+    overallDeveloperScore: overallScore === null ? null : Math.round(overallScore * 10) / 10,
+    categoryScores,
+    mode,
+
+    // Agents that produced this report, for labels, icons and weights in the UI
+    agents,
+
+    // Individual repository insights
+    repositoryInsights: result.insights.map(insight => ({
+      repository: insight.repository,
+      category: insight.category,
+      score: insight.score,
+      insights: insight.insights,
+      actionables: insight.actionables,
+      patterns: insight.patterns,
+      agentLearnings: insight.learnings,
+      provenance: insight.provenance ?? 'heuristic',
+      prompt: insight.prompt ?? null
+    })),
+
+    // How many insights each source produced; any fallback or mock means some scores are placeholders
+    scoreProvenance: result.insights.reduce<Record<string, number>>((counts, insight) => {
+      const provenance = insight.provenance ?? 'heuristic';
+      counts[provenance] = (counts[provenance] || 0) + 1;
+      return counts;
+    }, {}),
+
+    // Career profile with actionables
+    careerProfile: result.careerProfile,
+
+    // Cross-repository patterns (pg_text search simulation)
+    crossRepoPatterns: result.crossRepoPatterns,
+
+    // AI learning evolution
+    agentLearningEvolution: result.learningEvolution,
+
+    // Agent scores for compatibility
+    overallScores: agents.map(agent => {
+      const categoryInsights = result.insights.filter(i => i.category === agent.category);
+      return {
+        agent: agent.slug,
+        agentId: agent.id,
+        name: agent.name,
+        icon: agent.icon,
+        weight: agent.weight,
+        averageScore: categoryScores[agent.slug],
+        totalInsights: categoryInsights.reduce((sum, i) => sum + i.insights.length, 0),
+        repositoriesAnalyzed: repositories.length,
+        processingTimeMs: result.agentDurations[agent.id] || 0,
+        fallbackInsights: categoryInsights.filter(isPlaceholder).length,
+        recommendations: categoryInsights.flatMap(i => i.actionables).slice(0, 3)
+      };
+    }),
+
+    // Legacy format for compatibility
+    analyses: Object.fromEntries(agents.map(agent => [
+      agent.slug,
+      result.insights
+        .filter(i => i.category === agent.category)
+        .map(i => ({
+          repository: i.repository,
+          score: i.score,
+          insights: i.insights,
+          recommendations: i.actionables,
+          provenance: i.provenance ?? 'heuristic',
+          prompt: i.prompt ?? null
+        }))
+    ])),
+
+    // Advanced Tiger Cloud features used
+    tigerFeatures: {
+      multiAgentForks: true,
+      pgTextSearch: true,
+      fluidStorage: true,
+      realTimeCollaboration: true,
+      agentLearning: true,
+      crossRepoAnalysis: true
+    },
+
+    // Resume drafted by the LLM engines, when the mode produces one
+    resume: result.resume ?? null,
+
+    // Prompt budget spent and files sampled per repository (LLM modes only)
+    evidence: result.evidence ?? [],
+
+    // Recency- and authorship-weighted language shares (not available in demo mode)
+    languageProfile: result.languageProfile ?? null,
+
+    // Authorship share, cadence and message quality per repository; mostlyOthers flags repos the user mostly didn't write
+    commitHistory: result.commitHistory ?? [],
+
+    // Merged PRs, reviews and issues on external repositories, with stars for context (not available in demo mode)
+    contributions: result.contributions ?? null,
+
+    repositoryCount: repositories.length,
+    tigerCloudUsed: true
+  };
+}
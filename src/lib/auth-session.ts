@@ -0,0 +1,232 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getDatabasePool, isDatabaseConfigured } from './database';
+import { getDataDirectory } from './data-directory';
+import { GitHubConnection, getDefaultConnection } from './github-client';
+
+export interface AuthSession {
+  id: string;
+  login: string;
+  name: string | null;
+  avatarUrl: string;
+  // The user's OAuth access token, encrypted with NEXTAUTH_SECRET; read it through getSessionConnection
+  encryptedToken: string;
+  scopes: string[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface SessionStore {
+  save(session: AuthSession): Promise<void>;
+  get(id: string): Promise<AuthSession | null>;
+  delete(id: string): Promise<void>;
+}
+
+export const SESSION_COOKIE = 'gitresume_session';
+export const SESSION_TTL_SECONDS = 14 * 24 * 60 * 60;
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+class FileSessionStore implements SessionStore {
+  private directory = getDataDirectory('sessions');
+
+  async save(session: AuthSession): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filePath = path.join(this.directory, `${session.id}.json`);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    // Sessions hold tokens, so only the server's user may read them
+    await fs.writeFile(tempPath, JSON.stringify(session), { encoding: 'utf-8', mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(id: string): Promise<AuthSession | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, `${id}.json`), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(path.join(this.directory, `${id}.json`), { force: true });
+  }
+}
+
+class PostgresSessionStore implements SessionStore {
+  private ready: Promise<void> | null = null;
+
+  private ensureTable(): Promise<void> {
+    if (!this.ready) {
+      this.ready = getDatabasePool().query(`
+        CREATE TABLE IF NOT EXISTS auth_sessions (
+          id VARCHAR(64) PRIMARY KEY,
+          login VARCHAR(255) NOT NULL,
+          session JSONB NOT NULL,
+          expires_at TIMESTAMP NOT NULL
+        );
+      `).then(() => undefined)
+        .catch(error => {
+          this.ready = null;
+          throw error;
+        });
+    }
+    return this.ready;
+  }
+
+  async save(session: AuthSession): Promise<void> {
+    await this.ensureTable();
+    await getDatabasePool().query(
+      `INSERT INTO auth_sessions (id, login, session, expires_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (id) DO UPDATE SET session = EXCLUDED.session, expires_at = EXCLUDED.expires_at`,
+      [session.id, session.login, JSON.stringify(session), session.expiresAt]
+    );
+  }
+
+  async get(id: string): Promise<AuthSession | null> {
+    await this.ensureTable();
+    const result = await getDatabasePool().query('SELECT session FROM auth_sessions WHERE id = $1', [id]);
+    return result.rows[0]?.session ?? null;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.ensureTable();
+    await getDatabasePool().query('DELETE FROM auth_sessions WHERE id = $1', [id]);
+  }
+}
+
+let store: SessionStore | null = null;
+
+export function getSessionStore(): SessionStore {
+  if (!store) {
+    store = isDatabaseConfigured() ? new PostgresSessionStore() : new FileSessionStore();
+  }
+  return store;
+}
+
+export function isAuthSecretConfigured(): boolean {
+  return Boolean(process.env.NEXTAUTH_SECRET);
+}
+
+function getAuthSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET is not configured');
+  }
+  return secret;
+}
+
+function hmac(value: string): string {
+  return createHmac('sha256', getAuthSecret()).update(value).digest('base64url');
+}
+
+// value.signature, so cookies can't be forged or swapped without the secret
+export function signValue(value: string): string {
+  return `${value}.${hmac(value)}`;
+}
+
+export function verifySignedValue(signed: string | undefined): string | null {
+  if (!signed) return null;
+
+  const separator = signed.lastIndexOf('.');
+  if (separator < 0) return null;
+
+  const value = signed.slice(0, separator);
+  const expected = Buffer.from(hmac(value));
+  const actual = Buffer.from(signed.slice(separator + 1));
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? value : null;
+}
+
+// AES-256-GCM with a key derived from NEXTAUTH_SECRET; iv.tag.ciphertext, base64url
+function encryptToken(token: string): string {
+  const key = createHash('sha256').update(getAuthSecret()).digest();
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf-8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+function decryptToken(encrypted: string): string {
+  const key = createHash('sha256').update(getAuthSecret()).digest();
+  const [iv, tag, ciphertext] = encrypted.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf-8');
+}
+
+export async function createSession(
+  user: { login: string; name: string | null; avatar_url: string },
+  token: string,
+  scopes: string[]
+): Promise<{ session: AuthSession; cookie: string }> {
+  const now = Date.now();
+  const session: AuthSession = {
+    id: randomBytes(32).toString('hex'),
+    login: user.login,
+    name: user.name,
+    avatarUrl: user.avatar_url,
+    encryptedToken: encryptToken(token),
+    scopes,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_SECONDS * 1000).toISOString()
+  };
+
+  await getSessionStore().save(session);
+  console.log(`🔐 Signed in ${session.login}`);
+
+  return { session, cookie: signValue(session.id) };
+}
+
+// The session behind a signed session cookie, or null when it is missing, forged or expired
+export async function getSession(cookie: string | undefined): Promise<AuthSession | null> {
+  if (!isAuthSecretConfigured()) return null;
+
+  const id = verifySignedValue(cookie);
+  if (!id || !SESSION_ID_PATTERN.test(id)) return null;
+
+  const session = await getSessionStore().get(id);
+  if (!session) return null;
+
+  if (new Date(session.expiresAt).getTime() < Date.now()) {
+    await getSessionStore().delete(id);
+    return null;
+  }
+
+  return session;
+}
+
+// Works with NextRequest without tying this module to Next.js
+export function getRequestSession(request: { cookies: { get(name: string): { value: string } | undefined } }): Promise<AuthSession | null> {
+  return getSession(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+export async function deleteSession(cookie: string | undefined): Promise<void> {
+  if (!isAuthSecretConfigured()) return;
+
+  const id = verifySignedValue(cookie);
+  if (id && SESSION_ID_PATTERN.test(id)) {
+    await getSessionStore().delete(id);
+  }
+}
+
+// What the browser may see of a session; never the token
+export function describeSession(session: AuthSession) {
+  return {
+    login: session.login,
+    name: session.name,
+    avatarUrl: session.avatarUrl,
+    scopes: session.scopes,
+    expiresAt: session.expiresAt
+  };
+}
+
+// The default GitHub instance, authenticated as the signed-in user
+export function getSessionConnection(session: AuthSession): GitHubConnection {
+  return { ...getDefaultConnection(), token: decryptToken(session.encryptedToken) };
+}
+
+export function isSessionUser(session: AuthSession | null, username: string): session is AuthSession {
+  return session !== null && session.login.toLowerCase() === username.toLowerCase();
+}
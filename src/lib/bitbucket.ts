@@ -0,0 +1,133 @@
+import { ProviderApiError, fetchProviderJson } from './provider-http';
+import { filterRepositories } from './repository-listing';
+import type { ProviderRepository, ProviderUser, RepositoryProvider } from './repository-provider';
+
+interface BitbucketWorkspace {
+  slug: string;
+  name: string;
+  created_on?: string;
+  links: { avatar?: { href: string }; html?: { href: string } };
+}
+
+interface BitbucketRepository {
+  uuid: string;
+  slug: string;
+  full_name: string;
+  description: string;
+  // Lowercase, e.g. "javascript" or "c#"
+  language: string;
+  // Bytes
+  size: number;
+  created_on: string;
+  updated_on: string;
+  links: { html: { href: string } };
+  parent?: { full_name: string };
+  is_private: boolean;
+  mainbranch?: { name: string };
+}
+
+interface BitbucketPage<T> {
+  values: T[];
+  // Total across pages
+  size?: number;
+  next?: string;
+}
+
+const API_URL = 'https://api.bitbucket.org/2.0';
+const PAGE_LENGTH = 100;
+const MAX_PAGES = 10;
+
+// Bitbucket reports languages in lowercase; these differ from plain capitalization
+const LANGUAGE_NAMES: Record<string, string> = {
+  javascript: 'JavaScript', typescript: 'TypeScript', php: 'PHP', 'c#': 'C#', 'c++': 'C++',
+  html: 'HTML', css: 'CSS', 'objective-c': 'Objective-C', coffeescript: 'CoffeeScript', powershell: 'PowerShell'
+};
+
+function languageName(language: string): string {
+  return LANGUAGE_NAMES[language] || language.charAt(0).toUpperCase() + language.slice(1);
+}
+
+// Public repositories need no credentials; an app password raises the rate limit and reaches private ones
+function authHeaders(): Record<string, string> {
+  const { BITBUCKET_USERNAME: username, BITBUCKET_APP_PASSWORD: password } = process.env;
+  return username && password ? { Authorization: `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}` } : {};
+}
+
+function api<T>(pathOrUrl: string) {
+  return fetchProviderJson<T>('Bitbucket', pathOrUrl.startsWith('http') ? pathOrUrl : `${API_URL}${pathOrUrl}`, authHeaders());
+}
+
+function toRepository(repo: BitbucketRepository): ProviderRepository {
+  return {
+    provider: 'bitbucket',
+    id: repo.uuid,
+    name: repo.slug,
+    full_name: repo.full_name,
+    description: repo.description || '',
+    language: repo.language ? languageName(repo.language) : '',
+    // Bitbucket has no stars, and forks aren't counted in listings
+    stargazers_count: 0,
+    forks_count: 0,
+    size: Math.round(repo.size / 1024),
+    created_at: repo.created_on,
+    updated_at: repo.updated_on,
+    pushed_at: repo.updated_on,
+    html_url: repo.links.html.href,
+    topics: [],
+    fork: Boolean(repo.parent),
+    archived: false,
+    is_template: false,
+    private: repo.is_private,
+    default_branch: repo.mainbranch?.name || 'main'
+  };
+}
+
+export const bitbucketProvider: RepositoryProvider = {
+  id: 'bitbucket',
+  name: 'Bitbucket',
+  // Bitbucket profiles are workspaces; the username is the workspace slug
+  async getUserProfile(username) {
+    const slug = encodeURIComponent(username);
+    const { data: repositories } = await api<BitbucketPage<BitbucketRepository>>(`/repositories/${slug}?pagelen=1`);
+    const profile: ProviderUser = {
+      provider: 'bitbucket',
+      login: username,
+      name: username,
+      bio: '',
+      public_repos: repositories.size ?? repositories.values.length,
+      followers: 0,
+      following: 0,
+      created_at: '',
+      avatar_url: '',
+      html_url: `https://bitbucket.org/${username}`
+    };
+
+    try {
+      const { data: workspace } = await api<BitbucketWorkspace>(`/workspaces/${slug}`);
+      return {
+        ...profile,
+        name: workspace.name,
+        created_at: workspace.created_on || '',
+        avatar_url: workspace.links.avatar?.href || '',
+        html_url: workspace.links.html?.href || profile.html_url
+      };
+    } catch (error) {
+      // Workspace details need credentials on some accounts; the repository count is enough to go on
+      if (error instanceof ProviderApiError && (error.status === 401 || error.status === 403)) return profile;
+      throw error;
+    }
+  },
+  async getUserRepositories(username, options) {
+    const repos: BitbucketRepository[] = [];
+    let next: string | undefined = `/repositories/${encodeURIComponent(username)}?pagelen=${PAGE_LENGTH}&sort=-updated_on`;
+
+    for (let page = 0; next && page < MAX_PAGES; page++) {
+      const { data }: { data: BitbucketPage<BitbucketRepository> } = await api<BitbucketPage<BitbucketRepository>>(next);
+      repos.push(...data.values);
+      next = data.next;
+    }
+
+    return filterRepositories(repos.map(toRepository), options);
+  },
+  cloneUrl: (owner, repo) => `https://bitbucket.org/${owner}/${repo}.git`
+};
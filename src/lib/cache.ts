@@ -0,0 +1,191 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getDatabasePool, isDatabaseConfigured } from './database';
+import { getDataDirectory } from './data-directory';
+
+export type CacheBackend = 'memory' | 'file' | 'postgres';
+
+export interface CacheStore {
+  get<T>(key: string): Promise<T | null>;
+  // ttlSeconds omitted means the entry never expires (e.g. content keyed by commit SHA)
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number | null;
+}
+
+const MAX_MEMORY_ENTRIES = 500;
+
+function expiryFor(ttlSeconds?: number): number | null {
+  return ttlSeconds ? Date.now() + ttlSeconds * 1000 : null;
+}
+
+function isExpired(entry: CacheEntry<unknown>): boolean {
+  return entry.expiresAt !== null && entry.expiresAt < Date.now();
+}
+
+class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (isExpired(entry)) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    // Evict the oldest entry so a long-lived instance doesn't grow without bound
+    if (this.entries.size >= MAX_MEMORY_ENTRIES && !this.entries.has(key)) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: expiryFor(ttlSeconds) });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+class FileCacheStore implements CacheStore {
+  private directory = getDataDirectory('cache');
+
+  private filePath(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const entry: CacheEntry<T> = JSON.parse(await fs.readFile(this.filePath(key), 'utf-8'));
+      if (isExpired(entry)) {
+        await this.delete(key);
+        return null;
+      }
+      return entry.value;
+    } catch {
+      return null;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filePath = this.filePath(key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    const entry: CacheEntry<T> = { value, expiresAt: expiryFor(ttlSeconds) };
+    await fs.writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+}
+
+class PostgresCacheStore implements CacheStore {
+  private ready: Promise<void> | null = null;
+
+  private ensureTable(): Promise<void> {
+    if (!this.ready) {
+      this.ready = getDatabasePool().query(`
+        CREATE TABLE IF NOT EXISTS cache_entries (
+          key TEXT PRIMARY KEY,
+          value JSONB NOT NULL,
+          expires_at TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT NOW()
+        );
+      `).then(() => undefined)
+        .catch(error => {
+          this.ready = null;
+          throw error;
+        });
+    }
+    return this.ready;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    await this.ensureTable();
+    const result = await getDatabasePool().query(
+      'SELECT value FROM cache_entries WHERE key = $1 AND (expires_at IS NULL OR expires_at > NOW())',
+      [key]
+    );
+    return result.rows[0]?.value ?? null;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    await this.ensureTable();
+    const expiresAt = expiryFor(ttlSeconds);
+    await getDatabasePool().query(
+      `INSERT INTO cache_entries (key, value, expires_at)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, expires_at = EXCLUDED.expires_at, updated_at = NOW()`,
+      [key, JSON.stringify(value), expiresAt ? new Date(expiresAt) : null]
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ensureTable();
+    await getDatabasePool().query('DELETE FROM cache_entries WHERE key = $1', [key]);
+  }
+}
+
+// GITRESUME_CACHE picks the backend; otherwise Postgres when configured, else files
+export function getCacheBackend(): CacheBackend {
+  const configured = process.env.GITRESUME_CACHE;
+  if (configured === 'memory' || configured === 'file' || configured === 'postgres') {
+    return configured;
+  }
+  return isDatabaseConfigured() ? 'postgres' : 'file';
+}
+
+export function createCacheStore(backend: CacheBackend = getCacheBackend()): CacheStore {
+  switch (backend) {
+    case 'memory':
+      return new MemoryCacheStore();
+    case 'postgres':
+      return new PostgresCacheStore();
+    default:
+      return new FileCacheStore();
+  }
+}
+
+let store: CacheStore | null = null;
+
+export function getCacheStore(): CacheStore {
+  if (!store) {
+    store = createCacheStore();
+  }
+  return store;
+}
+
+// Reads through the cache; a broken backend only costs a cache miss, never the request
+export async function cached<T>(key: string, load: () => Promise<T>, ttlSeconds?: number): Promise<T> {
+  const cacheStore = getCacheStore();
+
+  try {
+    const hit = await cacheStore.get<T>(key);
+    if (hit !== null) return hit;
+  } catch (error) {
+    console.log(`⚠️ Cache read failed for ${key}:`, error);
+  }
+
+  const value = await load();
+
+  try {
+    await cacheStore.set(key, value, ttlSeconds);
+  } catch (error) {
+    console.log(`⚠️ Cache write failed for ${key}:`, error);
+  }
+
+  return value;
+}
@@ -0,0 +1,214 @@
+import { cached } from './cache';
+import { RepositoryContributor, SourceCommit, getRepositorySource } from './repository-source';
+import { RepositorySnapshot, languageForPath, snapshotCacheKey } from './repository-snapshot';
+
+export interface CommitMessageQuality {
+  // Share of subjects like "feat(api): add pagination"
+  conventionalPercentage: number;
+  // Share of subjects that say what changed, not "fix" or "wip"
+  descriptivePercentage: number;
+  // Share of commits with a body below the subject
+  withBodyPercentage: number;
+  averageSubjectLength: number;
+  // 0-10 summary of the three shares above
+  score: number;
+}
+
+export interface CommitHistory {
+  repository: string;
+  // The user's commits reachable from the analyzed SHA (capped at MAX_COMMIT_PAGES pages)
+  userCommits: number;
+  // All contributors' commits on the default branch; null when GitHub doesn't report contributors
+  totalCommits: number | null;
+  authorshipPercentage: number | null;
+  // The user's share of current lines in the largest source files, from git blame (local clones only)
+  linesAuthoredPercentage: number | null;
+  firstCommit: string | null;
+  lastCommit: string | null;
+  spanDays: number;
+  activeWeeks: number;
+  // Active weeks over the weeks between the first and last commit, 0-100
+  activeWeekPercentage: number;
+  commitsPerActiveWeek: number;
+  longestStreakWeeks: number;
+  // Consecutive active weeks ending this week or last week
+  currentStreakWeeks: number;
+  messageQuality: CommitMessageQuality;
+  // The user wrote less than half of the commits, or none at all
+  mostlyOthers: boolean;
+  fork: boolean;
+}
+
+// Only what the analysis reads, to keep the cache entry small
+type UserCommit = Pick<SourceCommit, 'sha' | 'message' | 'date'>;
+
+const COMMITS_PER_PAGE = 100;
+const MAX_COMMIT_PAGES = 10;
+const MOSTLY_OTHERS_PERCENTAGE = 50;
+const WEEK_MS = 7 * 86_400_000;
+const MIN_DESCRIPTIVE_SUBJECT = 15;
+const MAX_BLAME_FILES = 10;
+
+const CONVENTIONAL_PATTERN = /^(feat|fix|docs|style|refactor|perf|test|build|ci|chore|revert)(\([^)]+\))?!?: \S/i;
+const LAZY_SUBJECT_PATTERN = /^(update|updates|fix|fixes|fixed|wip|changes|commit|minor|test|testing|stuff|misc|asdf|\.+|initial commit|first commit|update readme\.md)$/i;
+
+// Contributor counts (default branch on GitHub, the analyzed commit for local clones); keyed by SHA so a new push refreshes them
+export async function fetchContributors(snapshot: RepositorySnapshot): Promise<RepositoryContributor[] | null> {
+  try {
+    return await cached(`contributors:v2:${snapshotCacheKey(snapshot)}`, () =>
+      getRepositorySource(snapshot.source, snapshot.provider).getContributors(snapshot.owner, snapshot.repo, snapshot.commitSha)
+    );
+  } catch {
+    console.log(`Failed to fetch contributors for ${snapshot.repo}`);
+    return null;
+  }
+}
+
+// The user's commit dates and messages at the analyzed SHA, newest first
+async function fetchUserCommits(username: string, snapshot: RepositorySnapshot): Promise<UserCommit[]> {
+  return cached(`user-commits:v2:${snapshotCacheKey(snapshot)}:${username.toLowerCase()}`, async () => {
+    const source = getRepositorySource(snapshot.source, snapshot.provider);
+    const commits: UserCommit[] = [];
+    for (let page = 1; page <= MAX_COMMIT_PAGES; page++) {
+      const batch = await source.listCommits(snapshot.owner, snapshot.repo, snapshot.commitSha, { author: username, perPage: COMMITS_PER_PAGE, page });
+      commits.push(...batch.map(({ sha, message, date }) => ({ sha, message, date })));
+      if (batch.length < COMMITS_PER_PAGE) break;
+    }
+    return commits;
+  });
+}
+
+// Blames the largest source files at the analyzed SHA; null when the source can't blame
+async function fetchLinesAuthored(username: string, snapshot: RepositorySnapshot): Promise<number | null> {
+  const source = getRepositorySource(snapshot.source, snapshot.provider);
+  if (!source.blame) return null;
+
+  const files = snapshot.tree
+    .filter(entry => entry.type === 'blob' && languageForPath(entry.path) && !entry.path.includes('node_modules/'))
+    .sort((a, b) => (b.size ?? 0) - (a.size ?? 0))
+    .slice(0, MAX_BLAME_FILES);
+  if (files.length === 0) return null;
+
+  try {
+    return await cached(`lines-authored:v1:${snapshotCacheKey(snapshot)}:${username.toLowerCase()}`, async () => {
+      let own = 0;
+      let total = 0;
+      for (const file of files) {
+        const lines = await source.blame!(snapshot.owner, snapshot.repo, snapshot.commitSha, file.path);
+        for (const [login, count] of Object.entries(lines)) {
+          total += count;
+          if (login.toLowerCase() === username.toLowerCase()) own += count;
+        }
+      }
+      return percentage(own, total);
+    });
+  } catch {
+    console.log(`Failed to blame ${snapshot.repo}`);
+    return null;
+  }
+}
+
+function weekIndex(date: Date): number {
+  // Weeks since the epoch, starting on Monday (1970-01-01 was a Thursday)
+  return Math.floor((date.getTime() + 3 * 86_400_000) / WEEK_MS);
+}
+
+function percentage(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+}
+
+export function rateCommitMessages(messages: string[]): CommitMessageQuality {
+  const subjects = messages.map(message => message.split('\n')[0].trim());
+  const conventional = subjects.filter(subject => CONVENTIONAL_PATTERN.test(subject)).length;
+  const descriptive = subjects.filter(subject => subject.length >= MIN_DESCRIPTIVE_SUBJECT && !LAZY_SUBJECT_PATTERN.test(subject)).length;
+  const withBody = messages.filter(message => message.split('\n').slice(1).some(line => line.trim())).length;
+
+  const quality = {
+    conventionalPercentage: percentage(conventional, messages.length),
+    descriptivePercentage: percentage(descriptive, messages.length),
+    withBodyPercentage: percentage(withBody, messages.length),
+    averageSubjectLength: subjects.length ? Math.round(subjects.reduce((sum, subject) => sum + subject.length, 0) / subjects.length) : 0
+  };
+
+  // Descriptive subjects matter most; conventional prefixes and bodies are a bonus
+  const score = (quality.descriptivePercentage * 0.6 + quality.conventionalPercentage * 0.25 + quality.withBodyPercentage * 0.15) / 10;
+  return { ...quality, score: Math.round(score * 10) / 10 };
+}
+
+function computeStreaks(weeks: number[], now: Date): { longest: number; current: number } {
+  const sorted = Array.from(new Set(weeks)).sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+
+  sorted.forEach((week, index) => {
+    run = index > 0 && week === sorted[index - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  // The current streak only counts if the last active week is this week or the one before
+  const thisWeek = weekIndex(now);
+  const last = sorted[sorted.length - 1];
+  const current = last !== undefined && thisWeek - last <= 1 ? run : 0;
+  return { longest, current };
+}
+
+export async function analyzeCommitHistory(username: string, snapshot: RepositorySnapshot, now = new Date()): Promise<CommitHistory | null> {
+  if (!snapshot.commitSha) return null;
+
+  let commits: UserCommit[];
+  try {
+    commits = await fetchUserCommits(username, snapshot);
+  } catch {
+    console.log(`Failed to fetch commit history for ${snapshot.repo}`);
+    return null;
+  }
+
+  const [contributors, linesAuthoredPercentage] = await Promise.all([
+    fetchContributors(snapshot),
+    fetchLinesAuthored(username, snapshot)
+  ]);
+  const totalCommits = contributors ? contributors.reduce((sum, contributor) => sum + contributor.contributions, 0) : null;
+  const ownContributions = contributors?.find(contributor => contributor.login.toLowerCase() === username.toLowerCase())?.contributions;
+  // Contributor counts include every page, so they beat the capped commit listing when available
+  const userCommits = Math.max(commits.length, ownContributions ?? 0);
+  const authorshipPercentage = totalCommits ? Math.min(100, percentage(userCommits, totalCommits)) : null;
+
+  const dates = commits
+    .map(item => item.date)
+    .filter((date): date is string => Boolean(date))
+    .map(date => new Date(date))
+    .sort((a, b) => a.getTime() - b.getTime());
+  const weeks = dates.map(weekIndex);
+  const activeWeeks = new Set(weeks).size;
+  const spanWeeks = weeks.length ? weeks[weeks.length - 1] - weeks[0] + 1 : 0;
+  const streaks = computeStreaks(weeks, now);
+
+  const history: CommitHistory = {
+    repository: snapshot.repo,
+    userCommits,
+    totalCommits,
+    authorshipPercentage,
+    linesAuthoredPercentage,
+    firstCommit: dates[0]?.toISOString() ?? null,
+    lastCommit: dates[dates.length - 1]?.toISOString() ?? null,
+    spanDays: dates.length ? Math.round((dates[dates.length - 1].getTime() - dates[0].getTime()) / 86_400_000) : 0,
+    activeWeeks,
+    activeWeekPercentage: percentage(activeWeeks, spanWeeks),
+    commitsPerActiveWeek: activeWeeks ? Math.round((commits.length / activeWeeks) * 10) / 10 : 0,
+    longestStreakWeeks: streaks.longest,
+    currentStreakWeeks: streaks.current,
+    messageQuality: rateCommitMessages(commits.map(item => item.message)),
+    mostlyOthers: userCommits === 0 || (authorshipPercentage !== null && authorshipPercentage < MOSTLY_OTHERS_PERCENTAGE),
+    fork: Boolean(snapshot.info.fork)
+  };
+
+  if (history.mostlyOthers) {
+    console.log(`⚠️ ${username} wrote ${authorshipPercentage ?? 0}% of ${snapshot.repo}`);
+  }
+  return history;
+}
+
+export async function analyzeCommitHistories(username: string, snapshots: RepositorySnapshot[], now = new Date()): Promise<CommitHistory[]> {
+  const histories = await Promise.all(snapshots.map(snapshot => analyzeCommitHistory(username, snapshot, now)));
+  return histories.filter((history): history is CommitHistory => history !== null);
+}
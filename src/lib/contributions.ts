@@ -0,0 +1,217 @@
+import { cached } from './cache';
+import { GitHubRepo } from './github';
+import { getGitHubClient } from './github-client';
+import { getDefaultSourceKind } from './repository-source';
+
+// A repository the user contributed to but doesn't own
+export interface ExternalRepository {
+  fullName: string;
+  url: string;
+  stars: number;
+  forks: number;
+  language: string | null;
+  // Counts among the fetched search results (the newest 100 of each kind)
+  mergedPullRequests: number;
+  reviews: number;
+  issues: number;
+}
+
+export interface ContributionHighlight {
+  title: string;
+  url: string;
+  repository: string;
+  stars: number;
+  mergedAt: string | null;
+}
+
+export interface OpenSourceContributions {
+  username: string;
+  // Totals across GitHub, from the search API's total_count
+  mergedPullRequests: number;
+  reviews: number;
+  issues: number;
+  // Distinct external repositories in the search results, including those beyond the detailed list
+  repositoryCount: number;
+  // Most-contributed repositories first, with popularity context
+  repositories: ExternalRepository[];
+  // Merged pull requests to the most popular repositories
+  highlights: ContributionHighlight[];
+  fetchedAt: string;
+}
+
+interface SearchIssueItem {
+  title: string;
+  html_url: string;
+  repository_url: string;
+  pull_request?: { merged_at: string | null };
+}
+
+interface SearchResponse {
+  total_count: number;
+  items: SearchIssueItem[];
+}
+
+type ContributionKind = 'mergedPullRequests' | 'reviews' | 'issues';
+
+// Contributions change independently of any commit, so they are cached for a while instead of by SHA
+const CONTRIBUTIONS_TTL_SECONDS = 6 * 60 * 60;
+const SEARCH_PAGE_SIZE = 100;
+// Repository lookups for popularity context, most-contributed first
+const MAX_REPOSITORIES = 15;
+const MAX_HIGHLIGHTS = 5;
+// Stars at which a repository counts as a notable project
+export const NOTABLE_STARS = 1000;
+// GitHub logins, plus the underscore Enterprise Managed Users add; anything else could add qualifiers to the search query
+const LOGIN_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9_]|-(?=[A-Za-z0-9_])){0,38}$/;
+
+// -user: excludes repositories the user owns; those are covered by the repository analysis
+function contributionQueries(username: string): Record<ContributionKind, string> {
+  return {
+    mergedPullRequests: `type:pr author:${username} is:merged -user:${username}`,
+    reviews: `type:pr reviewed-by:${username} -author:${username} -user:${username}`,
+    issues: `type:issue author:${username} -user:${username}`
+  };
+}
+
+function repositoryName(repositoryUrl: string): string {
+  return repositoryUrl.replace(/^.*\/repos\//, '');
+}
+
+async function search(query: string): Promise<SearchResponse> {
+  return getGitHubClient().get<SearchResponse>(
+    `/search/issues?q=${encodeURIComponent(query)}&sort=updated&order=desc&per_page=${SEARCH_PAGE_SIZE}`
+  );
+}
+
+export async function fetchOpenSourceContributions(username: string): Promise<OpenSourceContributions | null> {
+  // Searching needs the GitHub API, which local-clone analyses stay away from
+  if (getDefaultSourceKind() !== 'github') return null;
+
+  if (!LOGIN_PATTERN.test(username)) {
+    console.log(`Skipping open source contributions for ${JSON.stringify(username)}: not a GitHub login`);
+    return null;
+  }
+
+  try {
+    // The same username can belong to different people on github.com and an Enterprise instance
+    const key = `contributions:v2:${getGitHubClient().cacheScope}${username.toLowerCase()}`;
+    return await cached(key, () => collectContributions(username), CONTRIBUTIONS_TTL_SECONDS);
+  } catch (error) {
+    console.log(`Failed to fetch open source contributions for ${username}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+async function collectContributions(username: string): Promise<OpenSourceContributions> {
+  console.log(`🌍 Searching open source contributions for ${username}...`);
+
+  const queries = contributionQueries(username);
+  // Sequential: the search API allows only 30 requests a minute
+  const results = {} as Record<ContributionKind, SearchResponse>;
+  for (const kind of Object.keys(queries) as ContributionKind[]) {
+    results[kind] = await search(queries[kind]);
+  }
+
+  const counts = new Map<string, Record<ContributionKind, number>>();
+  for (const kind of Object.keys(results) as ContributionKind[]) {
+    for (const item of results[kind].items) {
+      const name = repositoryName(item.repository_url);
+      const entry = counts.get(name) || { mergedPullRequests: 0, reviews: 0, issues: 0 };
+      entry[kind] += 1;
+      counts.set(name, entry);
+    }
+  }
+
+  const ranked = Array.from(counts.entries())
+    .sort(([, a], [, b]) => (b.mergedPullRequests * 3 + b.reviews * 2 + b.issues) - (a.mergedPullRequests * 3 + a.reviews * 2 + a.issues))
+    .slice(0, MAX_REPOSITORIES);
+
+  const repositories = await Promise.all(ranked.map(async ([fullName, entry]): Promise<ExternalRepository> => {
+    const info = await getGitHubClient().get<GitHubRepo>(`/repos/${fullName}`).catch(() => null);
+    return {
+      fullName,
+      url: info?.html_url || `${getGitHubClient().webUrl}/${fullName}`,
+      stars: info?.stargazers_count ?? 0,
+      forks: info?.forks_count ?? 0,
+      language: info?.language || null,
+      ...entry
+    };
+  }));
+
+  const stars = new Map(repositories.map(repo => [repo.fullName, repo.stars]));
+  const highlights = results.mergedPullRequests.items
+    .map(item => ({
+      title: item.title,
+      url: item.html_url,
+      repository: repositoryName(item.repository_url),
+      stars: stars.get(repositoryName(item.repository_url)) ?? 0,
+      mergedAt: item.pull_request?.merged_at ?? null
+    }))
+    .sort((a, b) => b.stars - a.stars)
+    .slice(0, MAX_HIGHLIGHTS);
+
+  console.log(`🌍 ${username}: ${results.mergedPullRequests.total_count} merged PRs, ${results.reviews.total_count} reviews, ${results.issues.total_count} issues on ${counts.size} external repositories`);
+
+  return {
+    username,
+    mergedPullRequests: results.mergedPullRequests.total_count,
+    reviews: results.reviews.total_count,
+    issues: results.issues.total_count,
+    repositoryCount: counts.size,
+    repositories: repositories.sort((a, b) => b.stars - a.stars),
+    highlights,
+    fetchedAt: new Date().toISOString()
+  };
+}
+
+// Request bodies carry the contributions back from the client, so check the shape before trusting it
+export function isOpenSourceContributions(value: unknown): value is OpenSourceContributions {
+  const contributions = value as OpenSourceContributions | null;
+  return Boolean(contributions)
+    && typeof contributions?.mergedPullRequests === 'number'
+    && Array.isArray(contributions.repositories)
+    && Array.isArray(contributions.highlights);
+}
+
+export function hasContributions(contributions: OpenSourceContributions | null): contributions is OpenSourceContributions {
+  return Boolean(contributions && contributions.mergedPullRequests + contributions.reviews + contributions.issues > 0);
+}
+
+function plural(count: number, noun: string, pluralNoun = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : pluralNoun}`;
+}
+
+// "3 merged PRs, 1 review" style counts, leaving out kinds with none
+function describeCounts(counts: Record<ContributionKind, number>, pullRequestNoun: string): string {
+  const parts = [
+    counts.mergedPullRequests > 0 && plural(counts.mergedPullRequests, pullRequestNoun),
+    counts.reviews > 0 && plural(counts.reviews, 'review'),
+    counts.issues > 0 && plural(counts.issues, 'issue')
+  ].filter((part): part is string => Boolean(part));
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0] || '';
+}
+
+// One-line summary for the career profile, e.g. "12 merged pull requests and 4 reviews across 5 external repositories"
+export function summarizeContributions(contributions: OpenSourceContributions): string {
+  const notable = contributions.repositories.filter(repo => repo.stars >= NOTABLE_STARS);
+  // Reports from before repositoryCount only carried the capped list
+  const repositoryCount = contributions.repositoryCount ?? contributions.repositories.length;
+  const summary = `${describeCounts(contributions, 'merged pull request')} across ${plural(repositoryCount, 'external repository', 'external repositories')}`;
+  return notable.length > 0 ? `${summary}, including ${notable.map(repo => repo.fullName).join(', ')}` : summary;
+}
+
+// Markdown section appended to the resume
+export function formatContributionsSection(contributions: OpenSourceContributions): string {
+  const repositories = contributions.repositories.slice(0, 5).map(repo =>
+    `- **${repo.fullName}** (★${repo.stars}${repo.language ? `, ${repo.language}` : ''}): ${describeCounts(repo, 'merged PR')}`
+  );
+  const highlights = contributions.highlights.map(pr => `- ${pr.title} (${pr.repository})`);
+
+  return [
+    '## Open Source Contributions',
+    summarizeContributions(contributions),
+    '',
+    ...repositories,
+    ...(highlights.length > 0 ? ['', '**Notable merged pull requests:**', ...highlights] : [])
+  ].join('\n');
+}
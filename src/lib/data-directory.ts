@@ -0,0 +1,7 @@
+import path from 'path';
+
+// Local state directory used when no database is configured
+export function getDataDirectory(...segments: string[]): string {
+  const root = process.env.GITRESUME_DATA_DIR || path.join(process.cwd(), '.gitresume');
+  return path.join(root, ...segments);
+}
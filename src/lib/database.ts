@@ -0,0 +1,26 @@
+import { Pool } from 'pg';
+
+let pool: Pool | null = null;
+
+export function isDatabaseConfigured(): boolean {
+  return Boolean(process.env.TIGER_DATABASE_URL);
+}
+
+// Shared pool for GitResume's own state (jobs, caches); created lazily on first use
+export function getDatabasePool(): Pool {
+  if (!process.env.TIGER_DATABASE_URL) {
+    throw new Error('TIGER_DATABASE_URL is not configured');
+  }
+
+  if (!pool) {
+    pool = new Pool({
+      connectionString: process.env.TIGER_DATABASE_URL,
+      ssl: { rejectUnauthorized: false },
+      max: 5,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 10000,
+    });
+  }
+
+  return pool;
+}
@@ -0,0 +1,265 @@
+import { mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { AgentInsight, getEnabledAgents } from './analysis-agents';
+import { classifyDependencies } from './framework-taxonomy';
+import type { GitTreeEntry } from './github-tree';
+import { parseManifests } from './manifest-parser';
+import { RepositorySnapshot, buildRepositorySnapshot } from './repository-snapshot';
+
+// A recorded repository snapshot; tree entries only need a path and type, and dependencies are parsed from the manifests
+export interface EvaluationFixture {
+  name: string;
+  description?: string;
+  snapshot: Omit<RepositorySnapshot, 'source' | 'provider' | 'tree' | 'dependencies' | 'technologies' | 'languageBytes'> & {
+    tree: Partial<GitTreeEntry>[];
+    languageBytes?: Record<string, number>;
+  };
+}
+
+// The part of an agent's output that is compared against the golden file
+export interface GoldenAgentOutput {
+  score: number;
+  patterns: string[];
+  actionables: string[];
+}
+
+export interface GoldenFile {
+  fixture: string;
+  // Allowed absolute score drift per agent
+  tolerance?: { score?: number };
+  agents: Record<string, GoldenAgentOutput>;
+}
+
+export type EvaluationDiffKind = 'score' | 'patterns' | 'actionables' | 'missing-agent' | 'unexpected-agent' | 'missing-golden' | 'error';
+
+export interface EvaluationDiff {
+  fixture: string;
+  agent: string;
+  kind: EvaluationDiffKind;
+  message: string;
+}
+
+export interface EvaluationResult {
+  fixture: string;
+  passed: boolean;
+  outputs: Record<string, GoldenAgentOutput>;
+  diffs: EvaluationDiff[];
+}
+
+export interface EvaluationReport {
+  passed: number;
+  failed: number;
+  results: EvaluationResult[];
+}
+
+export interface EvaluationOptions {
+  // Directory holding fixtures/ and golden/
+  directory?: string;
+  // Only run fixtures with these names
+  only?: string[];
+  // Rewrite golden files from the current outputs instead of comparing
+  update?: boolean;
+}
+
+const DEFAULT_SCORE_TOLERANCE = 0.25;
+
+export function getEvaluationDirectory(): string {
+  return path.join(process.cwd(), 'evaluation');
+}
+
+export function loadFixtures(directory = getEvaluationDirectory()): EvaluationFixture[] {
+  const fixturesDirectory = path.join(directory, 'fixtures');
+  return readdirSync(fixturesDirectory)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const fixture = JSON.parse(readFileSync(path.join(fixturesDirectory, file), 'utf-8')) as EvaluationFixture;
+      return { ...fixture, name: fixture.name || path.basename(file, '.json') };
+    });
+}
+
+function toSnapshot(fixture: EvaluationFixture): RepositorySnapshot {
+  const tree = fixture.snapshot.tree.map(entry => ({
+    path: entry.path || '',
+    mode: entry.mode || (entry.type === 'tree' ? '040000' : '100644'),
+    type: entry.type || 'blob',
+    sha: entry.sha || '',
+    size: entry.size,
+    url: entry.url || ''
+  }));
+  const dependencies = parseManifests(fixture.snapshot.manifests);
+  // Fixtures are self-contained; nothing is read from the source during evaluation
+  return {
+    ...fixture.snapshot,
+    source: 'github',
+    provider: 'github',
+    tree,
+    languageBytes: fixture.snapshot.languageBytes || {},
+    dependencies,
+    technologies: classifyDependencies(dependencies)
+  };
+}
+
+function toGoldenOutput(insight: AgentInsight): GoldenAgentOutput {
+  return {
+    score: Math.round(insight.score * 100) / 100,
+    patterns: insight.patterns,
+    actionables: insight.actionables
+  };
+}
+
+function compareLists(fixture: string, agent: string, kind: 'patterns' | 'actionables', expected: string[], actual: string[]): EvaluationDiff[] {
+  const missing = expected.filter(item => !actual.includes(item));
+  const added = actual.filter(item => !expected.includes(item));
+  return [
+    ...missing.map(item => ({ fixture, agent, kind, message: `- ${item}` })),
+    ...added.map(item => ({ fixture, agent, kind, message: `+ ${item}` }))
+  ];
+}
+
+// Scores may drift within the tolerance; patterns and actionables must match as sets
+export function compareWithGolden(
+  fixture: string,
+  outputs: Record<string, GoldenAgentOutput>,
+  golden: GoldenFile
+): EvaluationDiff[] {
+  const tolerance = golden.tolerance?.score ?? DEFAULT_SCORE_TOLERANCE;
+  const diffs: EvaluationDiff[] = [];
+
+  for (const [agent, expected] of Object.entries(golden.agents)) {
+    const actual = outputs[agent];
+    if (!actual) {
+      diffs.push({ fixture, agent, kind: 'missing-agent', message: 'agent has a golden output but did not run' });
+      continue;
+    }
+
+    const drift = actual.score - expected.score;
+    if (Math.abs(drift) > tolerance) {
+      diffs.push({
+        fixture,
+        agent,
+        kind: 'score',
+        message: `${expected.score} -> ${actual.score} (${drift > 0 ? '+' : ''}${Math.round(drift * 100) / 100}, tolerance ±${tolerance})`
+      });
+    }
+    diffs.push(...compareLists(fixture, agent, 'patterns', expected.patterns, actual.patterns));
+    diffs.push(...compareLists(fixture, agent, 'actionables', expected.actionables, actual.actionables));
+  }
+
+  for (const agent of Object.keys(outputs).filter(agent => !golden.agents[agent])) {
+    diffs.push({ fixture, agent, kind: 'unexpected-agent', message: 'agent ran but has no golden output' });
+  }
+
+  return diffs;
+}
+
+function readGolden(file: string): GoldenFile | null {
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8')) as GoldenFile;
+  } catch {
+    return null;
+  }
+}
+
+// Agents only read the snapshot; any network call during evaluation is a bug, so fetch is disabled
+async function withoutNetwork<T>(run: () => Promise<T>): Promise<T> {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async (input: RequestInfo | URL) => {
+    throw new Error(`Network access is disabled during evaluation (${String(input)})`);
+  };
+  try {
+    return await run();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+async function evaluateFixture(fixture: EvaluationFixture, goldenDirectory: string, update: boolean): Promise<EvaluationResult> {
+  const snapshot = toSnapshot(fixture);
+  const outputs: Record<string, GoldenAgentOutput> = {};
+  const diffs: EvaluationDiff[] = [];
+
+  for (const agent of getEnabledAgents()) {
+    try {
+      outputs[agent.id] = toGoldenOutput(await agent.analyze(snapshot));
+    } catch (error) {
+      diffs.push({ fixture: fixture.name, agent: agent.id, kind: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const goldenPath = path.join(goldenDirectory, `${fixture.name}.json`);
+  const golden = readGolden(goldenPath);
+
+  if (update) {
+    const updated: GoldenFile = { fixture: fixture.name, tolerance: golden?.tolerance ?? { score: DEFAULT_SCORE_TOLERANCE }, agents: outputs };
+    writeFileSync(goldenPath, `${JSON.stringify(updated, null, 2)}\n`);
+    console.log(`📝 Updated golden output for ${fixture.name}`);
+    return { fixture: fixture.name, passed: diffs.length === 0, outputs, diffs };
+  }
+
+  if (!golden) {
+    diffs.push({ fixture: fixture.name, agent: '*', kind: 'missing-golden', message: `no golden file at ${goldenPath}` });
+  } else {
+    diffs.push(...compareWithGolden(fixture.name, outputs, golden));
+  }
+
+  return { fixture: fixture.name, passed: diffs.length === 0, outputs, diffs };
+}
+
+// Runs every enabled agent over every fixture and compares the outputs with the golden files
+export async function runEvaluation(options: EvaluationOptions = {}): Promise<EvaluationReport> {
+  const directory = options.directory || getEvaluationDirectory();
+  const goldenDirectory = path.join(directory, 'golden');
+  const fixtures = loadFixtures(directory).filter(fixture => !options.only?.length || options.only.includes(fixture.name));
+
+  if (options.update) {
+    mkdirSync(goldenDirectory, { recursive: true });
+  }
+
+  const results = await withoutNetwork(async () => {
+    const evaluated: EvaluationResult[] = [];
+    for (const fixture of fixtures) {
+      evaluated.push(await evaluateFixture(fixture, goldenDirectory, Boolean(options.update)));
+    }
+    return evaluated;
+  });
+
+  const passed = results.filter(result => result.passed).length;
+  return { passed, failed: results.length - passed, results };
+}
+
+// Captures a live repository as a fixture; the only step of the harness that needs GitHub
+export async function recordFixture(owner: string, repo: string, name: string, ref?: string, directory = getEvaluationDirectory()): Promise<string> {
+  const snapshot = await buildRepositorySnapshot(owner, repo, ref);
+  const { info } = snapshot;
+  // Dependencies and technologies aren't recorded; they are parsed from the manifests on every run
+  const fixture: EvaluationFixture = {
+    name,
+    description: `Recorded from ${owner}/${repo}@${snapshot.commitSha.slice(0, 7)}`,
+    snapshot: {
+      owner: snapshot.owner,
+      repo: snapshot.repo,
+      ref: snapshot.ref,
+      commitSha: snapshot.commitSha,
+      readme: snapshot.readme,
+      manifests: snapshot.manifests,
+      languages: snapshot.languages,
+      languageBytes: snapshot.languageBytes,
+      frameworks: snapshot.frameworks,
+      info: {
+        name: info.name,
+        description: info.description,
+        language: info.language,
+        stargazers_count: info.stargazers_count,
+        forks_count: info.forks_count,
+        default_branch: info.default_branch
+      },
+      tree: snapshot.tree.map(({ path: entryPath, type, size }) => ({ path: entryPath, type, size }))
+    }
+  };
+
+  const file = path.join(directory, 'fixtures', `${name}.json`);
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  return file;
+}
@@ -0,0 +1,193 @@
+import { cached } from './cache';
+import { GitTreeEntry } from './github-tree';
+import { getRepositorySource } from './repository-source';
+import { RepositorySnapshot, fetchBlobText, snapshotCacheKey } from './repository-snapshot';
+
+export type FileRole = 'entry-point' | 'most-changed' | 'large-module' | 'config' | 'test';
+
+// How a sampled file made it into the prompt
+export type SampleMode = 'full' | 'outline' | 'truncated';
+
+export interface SampledFile {
+  path: string;
+  roles: FileRole[];
+  mode: SampleMode;
+  // Estimated tokens of the included content
+  tokens: number;
+  content: string;
+}
+
+export interface FileSample {
+  budget: number;
+  tokensUsed: number;
+  // Files that were eligible for sampling
+  candidates: number;
+  files: SampledFile[];
+}
+
+interface RankedFile {
+  entry: GitTreeEntry;
+  roles: FileRole[];
+  score: number;
+}
+
+const DEFAULT_TOKEN_BUDGET = 6000;
+const CHARS_PER_TOKEN = 4;
+// No single file may take more than this share of the sampling budget
+const MAX_FILE_SHARE = 0.35;
+// Below this many tokens a file isn't worth including
+const MIN_FILE_TOKENS = 80;
+const MAX_FILES = 12;
+// Commits inspected for change frequency; each costs one request the first time
+const CHANGE_HISTORY_COMMITS = 20;
+const LARGE_MODULE_BYTES = 8 * 1024;
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.py', '.go', '.rs', '.java', '.kt', '.rb', '.php', '.cs', '.cpp', '.c', '.h', '.swift', '.scala', '.vue', '.svelte'];
+const IGNORED_DIRECTORIES = ['node_modules/', 'vendor/', 'dist/', 'build/', '.next/', 'coverage/', 'target/', '__pycache__/'];
+const ENTRY_POINT_PATTERN = /(^|\/)(index|main|app|server|cli|lib|mod|__main__|manage|program)\.[a-z]+$/i;
+const CONFIG_PATTERN = /(^|\/)(tsconfig\.json|next\.config\.\w+|vite\.config\.\w+|webpack\.config\.\w+|dockerfile|docker-compose\.ya?ml|makefile|\.eslintrc[\w.]*|eslint\.config\.\w+|jest\.config\.\w+|vercel\.json|netlify\.toml)$|^\.github\/workflows\/.+\.ya?ml$/i;
+const TEST_PATTERN = /(^|\/)(__tests__|tests?|spec)\/|\.(test|spec)\.[a-z]+$|(^|\/)test_[^/]+\.py$/i;
+// Lines kept when a file is summarized instead of included in full
+const OUTLINE_PATTERN = /^\s*(export\s|import\s|from\s.+\simport\s|(async\s+)?function\s|class\s|interface\s|type\s|def\s|func\s|fn\s|pub\s|public\s|struct\s|enum\s|impl\s|module\.exports)/;
+
+// LLM_TOKEN_BUDGET caps the evidence sent per repository
+export function getTokenBudget(): number {
+  const configured = Number(process.env.LLM_TOKEN_BUDGET);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TOKEN_BUDGET;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function truncateToTokens(text: string, tokens: number): string {
+  const limit = Math.max(0, Math.floor(tokens * CHARS_PER_TOKEN));
+  return text.length <= limit ? text : `${text.slice(0, limit)}\n…(truncated)`;
+}
+
+// Picks the most informative files and fits them into the budget, outlining or truncating large ones
+export async function sampleRepositoryFiles(snapshot: RepositorySnapshot, budget: number): Promise<FileSample> {
+  const changeCounts = await fetchChangeCounts(snapshot);
+  const ranked = rankFiles(snapshot.tree, changeCounts, Object.keys(snapshot.manifests));
+  const sample: FileSample = { budget: Math.floor(budget), tokensUsed: 0, candidates: ranked.length, files: [] };
+
+  for (const file of pickDiverse(ranked)) {
+    const remaining = budget - sample.tokensUsed;
+    if (remaining < MIN_FILE_TOKENS || sample.files.length >= MAX_FILES) break;
+
+    let text: string;
+    try {
+      text = await fetchBlobText(snapshot, file.entry);
+    } catch {
+      console.log(`Failed to fetch sample ${file.entry.path}`);
+      continue;
+    }
+
+    const fitted = fitToBudget(text, Math.min(remaining, budget * MAX_FILE_SHARE));
+    if (!fitted) continue;
+
+    sample.files.push({ path: file.entry.path, roles: file.roles, ...fitted });
+    sample.tokensUsed += fitted.tokens;
+  }
+
+  console.log(`🎯 Sampled ${sample.files.length}/${sample.candidates} files from ${snapshot.repo}: ${sample.tokensUsed}/${sample.budget} tokens`);
+  return sample;
+}
+
+function rankFiles(tree: GitTreeEntry[], changeCounts: Record<string, number>, manifestPaths: string[]): RankedFile[] {
+  return tree
+    .filter(entry => entry.type === 'blob' && !IGNORED_DIRECTORIES.some(dir => entry.path.includes(dir)))
+    // Manifests and the README already have their own evidence sections
+    .filter(entry => !manifestPaths.includes(entry.path) && !/(^|\/)readme(\.|$)/i.test(entry.path))
+    .flatMap(entry => {
+      const isSource = SOURCE_EXTENSIONS.some(ext => entry.path.endsWith(ext));
+      const isConfig = CONFIG_PATTERN.test(entry.path);
+      if (!isSource && !isConfig) return [];
+
+      const roles: FileRole[] = [];
+      const depth = entry.path.split('/').length;
+      const changes = changeCounts[entry.path] || 0;
+      let score = 0;
+
+      if (TEST_PATTERN.test(entry.path)) {
+        roles.push('test');
+        score += 1;
+      } else if (isSource && ENTRY_POINT_PATTERN.test(entry.path) && depth <= 3) {
+        roles.push('entry-point');
+        score += 6 - depth;
+      }
+      if (changes > 0) {
+        roles.push('most-changed');
+        score += Math.min(changes, 5);
+      }
+      if (isSource && (entry.size ?? 0) >= LARGE_MODULE_BYTES) {
+        roles.push('large-module');
+        score += Math.min(Math.log2((entry.size ?? 0) / LARGE_MODULE_BYTES) + 1, 3);
+      }
+      if (isConfig) {
+        roles.push('config');
+        score += 1.5;
+      }
+
+      // Shallow files edge out deep ones when nothing else distinguishes them
+      return [{ entry, roles, score: score + 1 / depth }];
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// Best file of each role first, so one kind of file can't crowd out the rest, then by score
+function pickDiverse(ranked: RankedFile[]): RankedFile[] {
+  const roles: FileRole[] = ['entry-point', 'most-changed', 'large-module', 'config', 'test'];
+  const picked: RankedFile[] = [];
+
+  for (const role of roles) {
+    const best = ranked.find(file => file.roles.includes(role) && !picked.includes(file));
+    if (best) picked.push(best);
+  }
+
+  return [...picked, ...ranked.filter(file => !picked.includes(file))];
+}
+
+function fitToBudget(text: string, tokens: number): Omit<SampledFile, 'path' | 'roles'> | null {
+  if (tokens < MIN_FILE_TOKENS) return null;
+
+  const fullTokens = estimateTokens(text);
+  if (fullTokens <= tokens) {
+    return { mode: 'full', tokens: fullTokens, content: text };
+  }
+
+  // Declarations say more about a large module than its first few hundred lines
+  const outline = text.split('\n').filter(line => OUTLINE_PATTERN.test(line)).join('\n');
+  if (outline && estimateTokens(outline) <= tokens) {
+    const content = `(outline: imports and declarations only)\n${outline}`;
+    return { mode: 'outline', tokens: estimateTokens(content), content };
+  }
+
+  const content = truncateToTokens(text, tokens);
+  return { mode: 'truncated', tokens: estimateTokens(content), content };
+}
+
+// Files touched by the most recent commits at the analyzed SHA; fixed for a given commit, so cached by it
+async function fetchChangeCounts(snapshot: RepositorySnapshot): Promise<Record<string, number>> {
+  if (!snapshot.commitSha) return {};
+
+  try {
+    return await cached(`change-counts:v2:${snapshotCacheKey(snapshot)}`, async () => {
+      const source = getRepositorySource(snapshot.source, snapshot.provider);
+      const commits = await source.listCommits(snapshot.owner, snapshot.repo, snapshot.commitSha, { perPage: CHANGE_HISTORY_COMMITS });
+      // One failed commit lookup fails the load, so a partial count is never cached
+      const changedFiles = await Promise.all(commits.map(commit =>
+        source.getCommitFiles(snapshot.owner, snapshot.repo, commit.sha)
+      ));
+
+      const counts: Record<string, number> = {};
+      changedFiles.forEach(files => files.forEach(file => {
+        counts[file] = (counts[file] || 0) + 1;
+      }));
+      return counts;
+    });
+  } catch (error) {
+    console.log(`Failed to fetch change history for ${snapshot.repo}:`, error);
+    return {};
+  }
+}
@@ -0,0 +1,201 @@
+import type { Ecosystem, ParsedDependency } from './manifest-parser';
+
+export type TechnologyKind = 'framework' | 'library' | 'tool';
+
+export type TechnologyCategory = 'frontend' | 'backend' | 'mobile' | 'desktop' | 'ml' | 'data' | 'database' | 'testing' | 'build' | 'game';
+
+interface TaxonomyEntry {
+  name: string;
+  kind: TechnologyKind;
+  category: TechnologyCategory;
+  ecosystem: Ecosystem;
+  // Package names; a trailing * matches a prefix
+  packages: string[];
+  // Current-generation choice, weighed by the Tech Scout
+  modern?: boolean;
+}
+
+// A taxonomy entry found in a repository's manifests
+export interface DetectedTechnology {
+  name: string;
+  kind: TechnologyKind;
+  category: TechnologyCategory;
+  ecosystem: Ecosystem;
+  // Declared version of the first matching runtime dependency, else the first dev one
+  version: string | null;
+  // Dependencies that matched the entry
+  packages: string[];
+  // Every matching dependency is dev/test/build-only
+  dev: boolean;
+  modern: boolean;
+}
+
+// Curated, not exhaustive: the stacks worth naming on a resume. Earlier entries win when several match a package.
+const TAXONOMY: TaxonomyEntry[] = [
+  // npm
+  { name: 'Next.js', kind: 'framework', category: 'frontend', ecosystem: 'npm', packages: ['next'], modern: true },
+  { name: 'Remix', kind: 'framework', category: 'frontend', ecosystem: 'npm', packages: ['@remix-run/*'], modern: true },
+  { name: 'Gatsby', kind: 'framework', category: 'frontend', ecosystem: 'npm', packages: ['gatsby'] },
+  { name: 'Astro', kind: 'framework', category: 'frontend', ecosystem: 'npm', packages: ['astro'], modern: true },
+  { name: 'React Native', kind: 'framework', category: 'mobile', ecosystem: 'npm', packages: ['react-native'], modern: true },
+  { name: 'Expo', kind: 'framework', category: 'mobile', ecosystem: 'npm', packages: ['expo'], modern: true },
+  { name: 'React', kind: 'framework', category: 'frontend', ecosystem: 'npm', packages: ['react'], modern: true },
+  { name: 'Nuxt', kind: 'framework', category: 'frontend', ecosystem: 'npm', packages: ['nuxt', 'nuxt3'], modern: true },
+  { name: 'Vue.js', kind: 'framework', category: 'frontend', ecosystem: 'npm', packages: ['vue'], modern: true },
+  { name: 'Angular', kind: 'framework', category: 'frontend', ecosystem: 'npm', packages: ['@angular/core'], modern: true },
+  { name: 'SvelteKit', kind: 'framework', category: 'frontend', ecosystem: 'npm', packages: ['@sveltejs/kit'], modern: true },
+  { name: 'Svelte', kind: 'framework', category: 'frontend', ecosystem: 'npm', packages: ['svelte'], modern: true },
+  { name: 'SolidJS', kind: 'framework', category: 'frontend', ecosystem: 'npm', packages: ['solid-js'], modern: true },
+  { name: 'Electron', kind: 'framework', category: 'desktop', ecosystem: 'npm', packages: ['electron'] },
+  { name: 'NestJS', kind: 'framework', category: 'backend', ecosystem: 'npm', packages: ['@nestjs/core'], modern: true },
+  { name: 'Express', kind: 'framework', category: 'backend', ecosystem: 'npm', packages: ['express'] },
+  { name: 'Fastify', kind: 'framework', category: 'backend', ecosystem: 'npm', packages: ['fastify'], modern: true },
+  { name: 'Koa', kind: 'framework', category: 'backend', ecosystem: 'npm', packages: ['koa'] },
+  { name: 'Hapi', kind: 'framework', category: 'backend', ecosystem: 'npm', packages: ['@hapi/hapi'] },
+  { name: 'Apollo GraphQL', kind: 'library', category: 'backend', ecosystem: 'npm', packages: ['@apollo/server', '@apollo/client', 'apollo-server*'] },
+  { name: 'GraphQL', kind: 'library', category: 'backend', ecosystem: 'npm', packages: ['graphql'] },
+  { name: 'tRPC', kind: 'library', category: 'backend', ecosystem: 'npm', packages: ['@trpc/*'] },
+  { name: 'Socket.IO', kind: 'library', category: 'backend', ecosystem: 'npm', packages: ['socket.io', 'socket.io-client'] },
+  { name: 'Redux', kind: 'library', category: 'frontend', ecosystem: 'npm', packages: ['redux', '@reduxjs/toolkit'] },
+  { name: 'Tailwind CSS', kind: 'library', category: 'frontend', ecosystem: 'npm', packages: ['tailwindcss'] },
+  { name: 'Three.js', kind: 'library', category: 'frontend', ecosystem: 'npm', packages: ['three'] },
+  { name: 'Prisma', kind: 'library', category: 'database', ecosystem: 'npm', packages: ['prisma', '@prisma/client'] },
+  { name: 'Drizzle ORM', kind: 'library', category: 'database', ecosystem: 'npm', packages: ['drizzle-orm'] },
+  { name: 'TypeORM', kind: 'library', category: 'database', ecosystem: 'npm', packages: ['typeorm'] },
+  { name: 'Sequelize', kind: 'library', category: 'database', ecosystem: 'npm', packages: ['sequelize'] },
+  { name: 'Mongoose', kind: 'library', category: 'database', ecosystem: 'npm', packages: ['mongoose'] },
+  { name: 'TensorFlow.js', kind: 'library', category: 'ml', ecosystem: 'npm', packages: ['@tensorflow/*'] },
+  { name: 'LangChain', kind: 'library', category: 'ml', ecosystem: 'npm', packages: ['langchain', '@langchain/*'] },
+  { name: 'OpenAI SDK', kind: 'library', category: 'ml', ecosystem: 'npm', packages: ['openai'] },
+  { name: 'Google Gen AI SDK', kind: 'library', category: 'ml', ecosystem: 'npm', packages: ['@google/generative-ai', '@google/genai'] },
+  { name: 'Jest', kind: 'tool', category: 'testing', ecosystem: 'npm', packages: ['jest'] },
+  { name: 'Vitest', kind: 'tool', category: 'testing', ecosystem: 'npm', packages: ['vitest'] },
+  { name: 'Mocha', kind: 'tool', category: 'testing', ecosystem: 'npm', packages: ['mocha'] },
+  { name: 'Cypress', kind: 'tool', category: 'testing', ecosystem: 'npm', packages: ['cypress'] },
+  { name: 'Playwright', kind: 'tool', category: 'testing', ecosystem: 'npm', packages: ['@playwright/test', 'playwright'] },
+  { name: 'Vite', kind: 'tool', category: 'build', ecosystem: 'npm', packages: ['vite'] },
+  { name: 'Webpack', kind: 'tool', category: 'build', ecosystem: 'npm', packages: ['webpack'] },
+  { name: 'TypeScript', kind: 'tool', category: 'build', ecosystem: 'npm', packages: ['typescript'] },
+
+  // PyPI
+  { name: 'Django', kind: 'framework', category: 'backend', ecosystem: 'pypi', packages: ['django'] },
+  { name: 'Django REST Framework', kind: 'library', category: 'backend', ecosystem: 'pypi', packages: ['djangorestframework'] },
+  { name: 'Flask', kind: 'framework', category: 'backend', ecosystem: 'pypi', packages: ['flask'] },
+  { name: 'FastAPI', kind: 'framework', category: 'backend', ecosystem: 'pypi', packages: ['fastapi'], modern: true },
+  { name: 'Streamlit', kind: 'framework', category: 'frontend', ecosystem: 'pypi', packages: ['streamlit'] },
+  { name: 'Celery', kind: 'library', category: 'backend', ecosystem: 'pypi', packages: ['celery'] },
+  { name: 'SQLAlchemy', kind: 'library', category: 'database', ecosystem: 'pypi', packages: ['sqlalchemy', 'flask-sqlalchemy'] },
+  { name: 'PyTorch', kind: 'library', category: 'ml', ecosystem: 'pypi', packages: ['torch'] },
+  { name: 'TensorFlow', kind: 'library', category: 'ml', ecosystem: 'pypi', packages: ['tensorflow', 'tensorflow-cpu', 'tensorflow-gpu'] },
+  { name: 'Keras', kind: 'library', category: 'ml', ecosystem: 'pypi', packages: ['keras'] },
+  { name: 'scikit-learn', kind: 'library', category: 'ml', ecosystem: 'pypi', packages: ['scikit-learn'] },
+  { name: 'Hugging Face Transformers', kind: 'library', category: 'ml', ecosystem: 'pypi', packages: ['transformers'] },
+  { name: 'LangChain', kind: 'library', category: 'ml', ecosystem: 'pypi', packages: ['langchain', 'langchain-*'] },
+  { name: 'OpenAI SDK', kind: 'library', category: 'ml', ecosystem: 'pypi', packages: ['openai'] },
+  { name: 'pandas', kind: 'library', category: 'data', ecosystem: 'pypi', packages: ['pandas'] },
+  { name: 'NumPy', kind: 'library', category: 'data', ecosystem: 'pypi', packages: ['numpy'] },
+  { name: 'pytest', kind: 'tool', category: 'testing', ecosystem: 'pypi', packages: ['pytest'] },
+
+  // Go modules
+  { name: 'Gin', kind: 'framework', category: 'backend', ecosystem: 'go', packages: ['github.com/gin-gonic/gin'] },
+  { name: 'Echo', kind: 'framework', category: 'backend', ecosystem: 'go', packages: ['github.com/labstack/echo*'] },
+  { name: 'Fiber', kind: 'framework', category: 'backend', ecosystem: 'go', packages: ['github.com/gofiber/fiber*'] },
+  { name: 'chi', kind: 'framework', category: 'backend', ecosystem: 'go', packages: ['github.com/go-chi/chi*'] },
+  { name: 'gRPC', kind: 'library', category: 'backend', ecosystem: 'go', packages: ['google.golang.org/grpc'] },
+  { name: 'GORM', kind: 'library', category: 'database', ecosystem: 'go', packages: ['gorm.io/gorm'] },
+  { name: 'Cobra', kind: 'library', category: 'build', ecosystem: 'go', packages: ['github.com/spf13/cobra'] },
+
+  // Cargo
+  { name: 'Actix Web', kind: 'framework', category: 'backend', ecosystem: 'cargo', packages: ['actix-web'], modern: true },
+  { name: 'Axum', kind: 'framework', category: 'backend', ecosystem: 'cargo', packages: ['axum'], modern: true },
+  { name: 'Rocket', kind: 'framework', category: 'backend', ecosystem: 'cargo', packages: ['rocket'] },
+  { name: 'Tauri', kind: 'framework', category: 'desktop', ecosystem: 'cargo', packages: ['tauri'], modern: true },
+  { name: 'Bevy', kind: 'framework', category: 'game', ecosystem: 'cargo', packages: ['bevy'] },
+  { name: 'Tokio', kind: 'library', category: 'backend', ecosystem: 'cargo', packages: ['tokio'] },
+  { name: 'Serde', kind: 'library', category: 'data', ecosystem: 'cargo', packages: ['serde'] },
+  { name: 'Diesel', kind: 'library', category: 'database', ecosystem: 'cargo', packages: ['diesel'] },
+  { name: 'SQLx', kind: 'library', category: 'database', ecosystem: 'cargo', packages: ['sqlx'] },
+  { name: 'ONNX Runtime', kind: 'library', category: 'ml', ecosystem: 'cargo', packages: ['ort'] },
+  { name: 'Candle', kind: 'library', category: 'ml', ecosystem: 'cargo', packages: ['candle-core'] },
+  { name: 'Clap', kind: 'library', category: 'build', ecosystem: 'cargo', packages: ['clap'] },
+
+  // Maven and Gradle
+  { name: 'Spring Boot', kind: 'framework', category: 'backend', ecosystem: 'maven', packages: ['org.springframework.boot:*'], modern: true },
+  { name: 'Spring', kind: 'framework', category: 'backend', ecosystem: 'maven', packages: ['org.springframework:*'] },
+  { name: 'Quarkus', kind: 'framework', category: 'backend', ecosystem: 'maven', packages: ['io.quarkus:*'], modern: true },
+  { name: 'Micronaut', kind: 'framework', category: 'backend', ecosystem: 'maven', packages: ['io.micronaut:*'] },
+  { name: 'Ktor', kind: 'framework', category: 'backend', ecosystem: 'maven', packages: ['io.ktor:*'], modern: true },
+  { name: 'Jetpack Compose', kind: 'framework', category: 'mobile', ecosystem: 'maven', packages: ['androidx.compose.*'], modern: true },
+  { name: 'Android Jetpack', kind: 'library', category: 'mobile', ecosystem: 'maven', packages: ['androidx.*'] },
+  { name: 'Hibernate', kind: 'library', category: 'database', ecosystem: 'maven', packages: ['org.hibernate*'] },
+  { name: 'JUnit', kind: 'tool', category: 'testing', ecosystem: 'maven', packages: ['junit:junit', 'org.junit*'] },
+
+  // RubyGems
+  { name: 'Ruby on Rails', kind: 'framework', category: 'backend', ecosystem: 'rubygems', packages: ['rails'] },
+  { name: 'Sinatra', kind: 'framework', category: 'backend', ecosystem: 'rubygems', packages: ['sinatra'] },
+  { name: 'Sidekiq', kind: 'library', category: 'backend', ecosystem: 'rubygems', packages: ['sidekiq'] },
+  { name: 'RSpec', kind: 'tool', category: 'testing', ecosystem: 'rubygems', packages: ['rspec', 'rspec-rails'] },
+
+  // Composer
+  { name: 'Laravel', kind: 'framework', category: 'backend', ecosystem: 'composer', packages: ['laravel/framework'] },
+  { name: 'Symfony', kind: 'framework', category: 'backend', ecosystem: 'composer', packages: ['symfony/framework-bundle'] },
+  { name: 'PHPUnit', kind: 'tool', category: 'testing', ecosystem: 'composer', packages: ['phpunit/phpunit'] },
+
+  // NuGet
+  { name: 'Blazor', kind: 'framework', category: 'frontend', ecosystem: 'nuget', packages: ['microsoft.aspnetcore.components.webassembly*'], modern: true },
+  { name: 'ASP.NET Core', kind: 'framework', category: 'backend', ecosystem: 'nuget', packages: ['microsoft.aspnetcore*'], modern: true },
+  { name: 'Entity Framework Core', kind: 'library', category: 'database', ecosystem: 'nuget', packages: ['microsoft.entityframeworkcore*'] },
+  { name: 'MAUI', kind: 'framework', category: 'mobile', ecosystem: 'nuget', packages: ['microsoft.maui*'] },
+  { name: 'xUnit', kind: 'tool', category: 'testing', ecosystem: 'nuget', packages: ['xunit'] },
+  { name: 'NUnit', kind: 'tool', category: 'testing', ecosystem: 'nuget', packages: ['nunit'] }
+];
+
+// PyPI names are case-insensitive with -, _ and . interchangeable; NuGet ids are case-insensitive
+function normalizePackage(name: string, ecosystem: Ecosystem): string {
+  const lower = name.toLowerCase();
+  return ecosystem === 'pypi' ? lower.replace(/[._]+/g, '-') : lower;
+}
+
+function matchesPackage(pattern: string, name: string): boolean {
+  return pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern;
+}
+
+export function classifyDependencies(dependencies: ParsedDependency[]): DetectedTechnology[] {
+  const detected = new Map<string, DetectedTechnology>();
+
+  for (const dep of dependencies) {
+    const name = normalizePackage(dep.name, dep.ecosystem);
+    const entry = TAXONOMY.find(candidate =>
+      candidate.ecosystem === dep.ecosystem && candidate.packages.some(pattern => matchesPackage(pattern, name))
+    );
+    if (!entry) continue;
+
+    const existing = detected.get(entry.name);
+    if (!existing) {
+      detected.set(entry.name, {
+        name: entry.name,
+        kind: entry.kind,
+        category: entry.category,
+        ecosystem: entry.ecosystem,
+        version: dep.version,
+        packages: [dep.name],
+        dev: dep.dev,
+        modern: Boolean(entry.modern)
+      });
+      continue;
+    }
+
+    if (!existing.packages.includes(dep.name)) existing.packages.push(dep.name);
+    // A runtime dependency's version beats a dev one
+    if ((existing.dev && !dep.dev) || !existing.version) existing.version = dep.version ?? existing.version;
+    existing.dev = existing.dev && dep.dev;
+  }
+
+  return Array.from(detected.values());
+}
+
+// "Next.js 14.2.0" for display: the first version in the constraint, without range operators
+export function formatTechnology(technology: DetectedTechnology): string {
+  const version = technology.version?.match(/^[\^~<>=!v\s]*(\d[\w.+-]*)/)?.[1];
+  return version ? `${technology.name} ${version}` : technology.name;
+}
@@ -0,0 +1,356 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { getCacheStore } from './cache';
+
+export interface RateLimitStatus {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: string;
+}
+
+export interface GitHubRequestOptions {
+  method?: 'GET' | 'POST';
+  accept?: string;
+  body?: unknown;
+}
+
+export interface GitHubResponse<T> {
+  data: T;
+  status: number;
+  link: string | null;
+  // True when GitHub answered 304 and the stored copy was replayed
+  notModified: boolean;
+}
+
+// Which GitHub a request talks to and as whom; Enterprise Server serves REST under /api/v3 and GraphQL at /api/graphql
+export interface GitHubConnection {
+  apiUrl: string;
+  graphqlUrl: string;
+  // Browser-facing URL, for profile links and clone URLs
+  webUrl: string;
+  token?: string;
+}
+
+interface StoredResponse {
+  etag: string;
+  body: string;
+  contentType: string;
+  link: string | null;
+}
+
+export class GitHubApiError extends Error {
+  constructor(public status: number, public endpoint: string, message: string) {
+    super(`GitHub API error: ${status} - ${message}`);
+    this.name = 'GitHubApiError';
+  }
+}
+
+const DEFAULT_API_URL = 'https://api.github.com';
+const MAX_CONCURRENT_REQUESTS = 6;
+const MAX_RETRIES = 3;
+// Longer waits than this fail fast instead of holding the request open
+const MAX_WAIT_MS = 60 * 1000;
+// Stored responses are kept in the shared cache so revalidation survives cold starts
+const ETAG_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class GitHubClient {
+  private baseUrl: string;
+  private graphqlUrl: string;
+  private token?: string;
+  // Prefix for stored ETags and other per-instance cache keys; empty for the server's default connection
+  readonly cacheScope: string;
+  readonly webUrl: string;
+  private rateLimits = new Map<string, RateLimitStatus>();
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private requestCount = 0;
+  private notModifiedCount = 0;
+
+  constructor(connection: GitHubConnection = getDefaultConnection()) {
+    this.baseUrl = connection.apiUrl;
+    this.graphqlUrl = connection.graphqlUrl;
+    this.token = connection.token;
+    this.webUrl = connection.webUrl;
+    const key = connectionKey(connection);
+    this.cacheScope = key === connectionKey(getDefaultConnection()) ? '' : `${key} `;
+  }
+
+  hasToken(): boolean {
+    return Boolean(this.token);
+  }
+
+  async get<T = unknown>(endpoint: string, accept?: string): Promise<T> {
+    const response = await this.request<T>(endpoint, { accept });
+    return response.data;
+  }
+
+  async request<T = unknown>(endpoint: string, options: GitHubRequestOptions = {}): Promise<GitHubResponse<T>> {
+    // Absolute API URLs (e.g. blob urls from a tree) are accepted too
+    const path = endpoint.startsWith(this.baseUrl) ? endpoint.slice(this.baseUrl.length) : endpoint;
+
+    await this.acquireSlot();
+    try {
+      return await this.send<T>(path, options, 0);
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  getRateLimits(): RateLimitStatus[] {
+    return Array.from(this.rateLimits.values());
+  }
+
+  getStats() {
+    return {
+      requests: this.requestCount,
+      notModified: this.notModifiedCount,
+      rateLimits: this.getRateLimits()
+    };
+  }
+
+  private async send<T>(path: string, options: GitHubRequestOptions, attempt: number): Promise<GitHubResponse<T>> {
+    const method = options.method || 'GET';
+    const accept = options.accept || 'application/vnd.github.v3+json';
+    const resource = this.resourceFor(path);
+    const storeKey = `${this.cacheScope}${accept} ${path}`;
+    const stored = method === 'GET' ? await this.loadStoredResponse(storeKey) : null;
+
+    await this.waitForBudget(resource);
+
+    const headers: Record<string, string> = {
+      'Accept': accept,
+      'User-Agent': 'GitResume-App'
+    };
+    if (this.token) {
+      headers['Authorization'] = `token ${this.token}`;
+    }
+    if (stored) {
+      // 304 answers to conditional requests don't count against the quota
+      headers['If-None-Match'] = stored.etag;
+    }
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    this.requestCount++;
+    const url = path === '/graphql' ? this.graphqlUrl : `${this.baseUrl}${path}`;
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
+
+    this.recordRateLimit(response.headers);
+
+    if (response.status === 304 && stored) {
+      this.notModifiedCount++;
+      return {
+        data: this.parseBody(stored.body, stored.contentType),
+        status: 200,
+        link: stored.link,
+        notModified: true
+      };
+    }
+
+    if (!response.ok) {
+      const delay = this.retryDelay(response, attempt);
+      if (delay !== null) {
+        console.log(`⏳ GitHub ${response.status} on ${path}, retrying in ${Math.ceil(delay / 1000)}s`);
+        await sleep(delay);
+        return this.send<T>(path, options, attempt + 1);
+      }
+
+      const errorText = await response.text();
+      throw new GitHubApiError(response.status, path, errorText);
+    }
+
+    const body = await response.text();
+    const contentType = response.headers.get('content-type') || '';
+    const link = response.headers.get('link');
+    const etag = response.headers.get('etag');
+
+    if (method === 'GET' && etag) {
+      await this.saveStoredResponse(storeKey, { etag, body, contentType, link });
+    }
+
+    return { data: this.parseBody(body, contentType), status: response.status, link, notModified: false };
+  }
+
+  private async loadStoredResponse(storeKey: string): Promise<StoredResponse | null> {
+    try {
+      return await getCacheStore().get<StoredResponse>(`github-etag:${storeKey}`);
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveStoredResponse(storeKey: string, stored: StoredResponse): Promise<void> {
+    try {
+      await getCacheStore().set(`github-etag:${storeKey}`, stored, ETAG_TTL_SECONDS);
+    } catch (error) {
+      console.log(`⚠️ Could not store ETag for ${storeKey}:`, error);
+    }
+  }
+
+  private parseBody(body: string, contentType: string) {
+    return contentType.includes('json') && body ? JSON.parse(body) : body;
+  }
+
+  // Returns how long to wait before retrying, or null if the error is final
+  private retryDelay(response: Response, attempt: number): number | null {
+    if (attempt >= MAX_RETRIES) return null;
+
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter) {
+      const delay = Number(retryAfter) * 1000;
+      return delay <= MAX_WAIT_MS ? delay : null;
+    }
+
+    const isRateLimited = (response.status === 403 || response.status === 429) &&
+      response.headers.get('x-ratelimit-remaining') === '0';
+    if (isRateLimited) {
+      const reset = Number(response.headers.get('x-ratelimit-reset')) * 1000;
+      const delay = reset - Date.now();
+      return delay <= MAX_WAIT_MS ? Math.max(delay, 1000) : null;
+    }
+
+    if (response.status >= 500) {
+      // Exponential backoff for transient server errors
+      return 1000 * 2 ** attempt;
+    }
+
+    return null;
+  }
+
+  private async waitForBudget(resource: string): Promise<void> {
+    const status = this.rateLimits.get(resource);
+    if (!status || status.remaining > 0) return;
+
+    const delay = new Date(status.resetAt).getTime() - Date.now();
+    if (delay <= 0) return;
+
+    if (delay > MAX_WAIT_MS) {
+      throw new GitHubApiError(403, resource, `rate limit exhausted until ${status.resetAt}`);
+    }
+
+    console.log(`⏳ GitHub ${resource} budget exhausted, waiting ${Math.ceil(delay / 1000)}s for reset`);
+    await sleep(delay);
+  }
+
+  private recordRateLimit(headers: Headers): void {
+    const remaining = headers.get('x-ratelimit-remaining');
+    if (remaining === null) return;
+
+    const resource = headers.get('x-ratelimit-resource') || 'core';
+    this.rateLimits.set(resource, {
+      resource,
+      limit: Number(headers.get('x-ratelimit-limit')),
+      remaining: Number(remaining),
+      used: Number(headers.get('x-ratelimit-used')),
+      resetAt: new Date(Number(headers.get('x-ratelimit-reset')) * 1000).toISOString()
+    });
+  }
+
+  private resourceFor(path: string): string {
+    if (path.startsWith('/graphql')) return 'graphql';
+    if (path.startsWith('/search')) return 'search';
+    return 'core';
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.active < MAX_CONCURRENT_REQUESTS) {
+      this.active++;
+      return;
+    }
+    // The slot is handed over directly by releaseSlot
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+function trimUrl(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+export function graphqlUrlFor(apiUrl: string): string {
+  return apiUrl.endsWith('/api/v3') ? `${apiUrl.slice(0, -'/v3'.length)}/graphql` : `${apiUrl}/graphql`;
+}
+
+export function webUrlFor(apiUrl: string): string {
+  if (apiUrl === DEFAULT_API_URL) return 'https://github.com';
+  return apiUrl.replace(/\/api\/v3$/, '');
+}
+
+export function createGitHubConnection(apiUrl: string, token?: string): GitHubConnection {
+  const base = trimUrl(apiUrl);
+  return { apiUrl: base, graphqlUrl: graphqlUrlFor(base), webUrl: webUrlFor(base), token };
+}
+
+// GITHUB_API_URL points the server at GitHub Enterprise Server; GITHUB_TOKEN authenticates it
+export function getDefaultConnection(): GitHubConnection {
+  const connection = createGitHubConnection(process.env.GITHUB_API_URL || DEFAULT_API_URL, process.env.GITHUB_TOKEN);
+  return process.env.GITHUB_GRAPHQL_URL ? { ...connection, graphqlUrl: trimUrl(process.env.GITHUB_GRAPHQL_URL) } : connection;
+}
+
+// Extra API URLs that requests may select, e.g. an Enterprise instance next to github.com
+export function getAllowedApiUrls(): string[] {
+  const extra = (process.env.GITHUB_ENTERPRISE_URLS || '').split(',').map(url => trimUrl(url.trim())).filter(Boolean);
+  return [getDefaultConnection().apiUrl, ...extra];
+}
+
+// Tokens are hashed so they never appear in cache keys
+function connectionKey(connection: GitHubConnection): string {
+  const token = connection.token ? createHash('sha256').update(connection.token).digest('hex').slice(0, 16) : 'anonymous';
+  return `${connection.apiUrl}#${token}`;
+}
+
+// Per-request overrides: X-GitHub-Api-Url picks an allowed instance and X-GitHub-Token replaces the server token.
+// Null when the requested instance isn't allowed. The server token is only ever sent to the default instance
+export function getRequestConnection(headers: Headers): GitHubConnection | null {
+  const defaultConnection = getDefaultConnection();
+  const apiUrl = trimUrl(headers.get('x-github-api-url') || defaultConnection.apiUrl);
+  const token = headers.get('x-github-token') || undefined;
+
+  if (!getAllowedApiUrls().includes(apiUrl)) return null;
+  if (apiUrl === defaultConnection.apiUrl) return token ? { ...defaultConnection, token } : defaultConnection;
+  return createGitHubConnection(apiUrl, token);
+}
+
+const connectionScope = new AsyncLocalStorage<GitHubConnection>();
+
+// Runs fn with every GitHub call inside it going to the given instance with the given token
+export function withGitHubConnection<T>(connection: GitHubConnection, fn: () => T): T {
+  return connectionScope.run(connection, fn);
+}
+
+// Every signed-in user and X-GitHub-Token brings its own client, so only the most recently used are kept
+const MAX_CLIENTS = 100;
+
+// Least recently used first; Map keeps insertion order, so a hit is moved to the end
+const clients = new Map<string, GitHubClient>();
+
+// One client per instance and token so ETags and rate-limit state are shared across requests
+export function getGitHubClient(connection: GitHubConnection = connectionScope.getStore() || getDefaultConnection()): GitHubClient {
+  const key = `${connectionKey(connection)} ${connection.graphqlUrl}`;
+  const client = clients.get(key) || new GitHubClient(connection);
+
+  clients.delete(key);
+  if (clients.size >= MAX_CLIENTS) {
+    const leastRecent = clients.keys().next().value;
+    if (leastRecent !== undefined) clients.delete(leastRecent);
+  }
+  clients.set(key, client);
+  return client;
+}
@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { resolveReturnTo } from './github-oauth';
+
+const ORIGIN = 'https://gitresume.example.com';
+
+describe('resolveReturnTo', () => {
+  it('keeps same-origin paths and queries', () => {
+    assert.equal(resolveReturnTo('/git-resume?job=abc', ORIGIN), '/git-resume?job=abc');
+  });
+
+  it('falls back to the analysis page when nothing is requested', () => {
+    assert.equal(resolveReturnTo(null, ORIGIN), '/github-analysis');
+  });
+
+  it('rejects other origins', () => {
+    for (const requested of ['https://evil.com', '//evil.com', '/\\evil.com', '\\\\evil.com', '/\t/evil.com']) {
+      assert.equal(resolveReturnTo(requested, ORIGIN), '/github-analysis', requested);
+    }
+  });
+
+  it('keeps an encoded backslash as a path on this origin', () => {
+    const returnTo = resolveReturnTo('/%5Cevil.com', ORIGIN);
+    assert.equal(returnTo, '/%5Cevil.com');
+    assert.equal(new URL(returnTo, ORIGIN).origin, ORIGIN);
+  });
+});
@@ -0,0 +1,73 @@
+import { isAuthSecretConfigured } from './auth-session';
+import { getDefaultConnection } from './github-client';
+
+// GitHub OAuth apps have no read-only scope for private repositories, so reading them takes repo
+export const OAUTH_SCOPES = ['read:user', 'repo'];
+
+export const OAUTH_STATE_COOKIE = 'gitresume_oauth_state';
+export const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+
+const DEFAULT_RETURN_TO = '/github-analysis';
+
+interface AccessTokenResponse {
+  access_token?: string;
+  scope?: string;
+  error?: string;
+  error_description?: string;
+}
+
+export function isGitHubOAuthConfigured(): boolean {
+  return Boolean(process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET && isAuthSecretConfigured());
+}
+
+// NEXTAUTH_URL is the public origin; behind proxies the request's own origin can be wrong
+export function getOAuthRedirectUri(requestOrigin: string): string {
+  return `${(process.env.NEXTAUTH_URL || requestOrigin).replace(/\/+$/, '')}/api/auth/callback`;
+}
+
+// Path and query to send the browser to after sign-in. Anything that resolves off this origin, such as
+// //evil.com or /\evil.com which browsers and URL parsing treat as another host, falls back to the default
+export function resolveReturnTo(requested: string | null, origin: string): string {
+  if (!requested) return DEFAULT_RETURN_TO;
+
+  try {
+    const url = new URL(requested, origin);
+    return url.origin === origin ? url.pathname + url.search : DEFAULT_RETURN_TO;
+  } catch {
+    return DEFAULT_RETURN_TO;
+  }
+}
+
+// OAuth lives on the web host, e.g. https://github.com or https://ghe.example.com
+export function getAuthorizeUrl(state: string, redirectUri: string): string {
+  const params = new URLSearchParams({
+    client_id: process.env.GITHUB_CLIENT_ID || '',
+    redirect_uri: redirectUri,
+    scope: OAUTH_SCOPES.join(' '),
+    state,
+    allow_signup: 'false'
+  });
+  return `${getDefaultConnection().webUrl}/login/oauth/authorize?${params}`;
+}
+
+export async function exchangeOAuthCode(code: string, redirectUri: string): Promise<{ accessToken: string; scopes: string[] }> {
+  const response = await fetch(`${getDefaultConnection().webUrl}/login/oauth/access_token`, {
+    method: 'POST',
+    headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      client_id: process.env.GITHUB_CLIENT_ID,
+      client_secret: process.env.GITHUB_CLIENT_SECRET,
+      code,
+      redirect_uri: redirectUri
+    }),
+    signal: AbortSignal.timeout(30_000)
+  });
+
+  // GitHub reports a bad code as 200 with an error field
+  const data: AccessTokenResponse = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
+  if (!response.ok || !data.access_token) {
+    throw new Error(`GitHub OAuth failed: ${data.error_description || data.error || response.status}`);
+  }
+
+  return { accessToken: data.access_token, scopes: (data.scope || '').split(',').filter(Boolean) };
+}
@@ -0,0 +1,95 @@
+import { GitHubClient, getGitHubClient } from './github-client';
+
+export interface GitTreeEntry {
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+  url: string;
+}
+
+interface GitTreeResponse {
+  sha: string;
+  tree: GitTreeEntry[];
+  truncated: boolean;
+}
+
+// Upper bound on extra requests spent walking a truncated tree
+const MAX_SUBTREE_REQUESTS = 100;
+
+// Resolves a branch, tag or commit-ish to a commit SHA, defaulting to the repo's default branch
+export async function resolveCommitSha(
+  owner: string,
+  repo: string,
+  ref?: string,
+  client: GitHubClient = getGitHubClient()
+): Promise<{ ref: string; sha: string }> {
+  let resolvedRef = ref;
+
+  if (!resolvedRef) {
+    const repoInfo = await client.get<{ default_branch: string }>(`/repos/${owner}/${repo}`);
+    resolvedRef = repoInfo.default_branch;
+  }
+
+  const sha = await client.get<string>(
+    `/repos/${owner}/${repo}/commits/${encodeURIComponent(resolvedRef)}`,
+    'application/vnd.github.sha'
+  );
+
+  return { ref: resolvedRef, sha: sha.trim() };
+}
+
+function fetchTree(client: GitHubClient, owner: string, repo: string, treeSha: string, recursive: boolean): Promise<GitTreeResponse> {
+  const query = recursive ? '?recursive=1' : '';
+  return client.get<GitTreeResponse>(`/repos/${owner}/${repo}/git/trees/${treeSha}${query}`);
+}
+
+// Fetches the full recursive tree; when GitHub truncates it, walks subtrees one level at a time
+export async function fetchRepositoryTree(
+  owner: string,
+  repo: string,
+  commitSha: string,
+  client: GitHubClient = getGitHubClient()
+): Promise<GitTreeEntry[]> {
+  const root = await fetchTree(client, owner, repo, commitSha, true);
+  if (!root.truncated) {
+    return root.tree;
+  }
+
+  console.log(`🌲 Tree for ${owner}/${repo} is truncated, paging subtrees...`);
+
+  const entries: GitTreeEntry[] = [];
+  const pending: Array<{ sha: string; prefix: string }> = [{ sha: commitSha, prefix: '' }];
+  let requests = 0;
+
+  while (pending.length > 0 && requests < MAX_SUBTREE_REQUESTS) {
+    const { sha, prefix } = pending.shift()!;
+
+    // Try each subtree recursively first; only split it further if that is truncated too
+    if (prefix) {
+      requests++;
+      const subtree = await fetchTree(client, owner, repo, sha, true);
+      if (!subtree.truncated) {
+        entries.push(...subtree.tree.map(entry => ({ ...entry, path: `${prefix}${entry.path}` })));
+        continue;
+      }
+    }
+
+    requests++;
+    const level = await fetchTree(client, owner, repo, sha, false);
+    level.tree.forEach(entry => {
+      const path = `${prefix}${entry.path}`;
+      entries.push({ ...entry, path });
+      if (entry.type === 'tree') {
+        pending.push({ sha: entry.sha, prefix: `${path}/` });
+      }
+    });
+  }
+
+  if (pending.length > 0) {
+    console.log(`⚠️ Stopped paging ${owner}/${repo} after ${requests} requests, ${pending.length} directories skipped`);
+  }
+
+  return entries;
+}
@@ -1,3 +1,6 @@
+import { GitHubApiError, getGitHubClient } from './github-client';
+import { filterRepositories, rankRepositories } from './repository-listing';
+
 export interface GitHubRepo {
   id: number;
   name: string;
@@ -12,8 +15,92 @@ export interface GitHubRepo {
   pushed_at: string;
   html_url: string;
   topics: string[];
+  fork: boolean;
+  archived: boolean;
+  is_template: boolean;
+  private: boolean;
+  default_branch: string;
+  // Byte counts per language; only filled in by the GraphQL listing
+  languages?: Record<string, number>;
+}
+
+export interface RepositoryListOptions {
+  includeForks?: boolean;
+  includeArchived?: boolean;
+  includeTemplates?: boolean;
+  // The authenticated user's private repositories too; the token must belong to the listed user
+  includePrivate?: boolean;
+  // Fetch repos, languages, topics and default branches in one GraphQL round trip per 100 repos
+  useGraphQL?: boolean;
+}
+
+interface GitHubPage<T> {
+  data: T;
+  nextEndpoint: string | null;
+}
+
+interface GraphQLRepositoryNode {
+  databaseId: number;
+  name: string;
+  nameWithOwner: string;
+  description: string;
+  url: string;
+  stargazerCount: number;
+  forkCount: number;
+  diskUsage: number | null;
+  createdAt: string;
+  updatedAt: string;
+  pushedAt: string;
+  isFork: boolean;
+  isArchived: boolean;
+  isTemplate: boolean;
+  isPrivate: boolean;
+  primaryLanguage: { name: string } | null;
+  defaultBranchRef: { name: string } | null;
+  repositoryTopics: { nodes: Array<{ topic: { name: string } }> };
+  languages: { edges: Array<{ size: number; node: { name: string } }> };
+}
+
+interface RepositoriesQueryResult {
+  user: {
+    repositories: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: GraphQLRepositoryNode[];
+    };
+  } | null;
 }
 
+const REPOSITORIES_QUERY = `
+  query($login: String!, $cursor: String) {
+    user(login: $login) {
+      repositories(first: 100, after: $cursor, ownerAffiliations: OWNER, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          databaseId
+          name
+          nameWithOwner
+          description
+          url
+          stargazerCount
+          forkCount
+          diskUsage
+          createdAt
+          updatedAt
+          pushedAt
+          isFork
+          isArchived
+          isTemplate
+          isPrivate
+          primaryLanguage { name }
+          defaultBranchRef { name }
+          repositoryTopics(first: 20) { nodes { topic { name } } }
+          languages(first: 20, orderBy: { field: SIZE, direction: DESC }) { edges { size node { name } } }
+        }
+      }
+    }
+  }
+`;
+
 export interface GitHubUser {
   login: string;
   name: string;
@@ -25,56 +112,99 @@ export interface GitHubUser {
   avatar_url: string;
 }
 
+export interface GitHubOrganization {
+  login: string;
+  name: string | null;
+  description: string | null;
+  public_repos: number;
+  avatar_url: string;
+  html_url: string;
+}
+
+export interface GitHubOrganizationMember {
+  login: string;
+  avatar_url: string;
+}
+
 export class GitHubService {
-  private baseUrl = 'https://api.github.com';
-  private token = process.env.GITHUB_TOKEN;
-  private cache = new Map<string, any>();
   private callCount = 0;
 
   constructor() {
-    console.log('GitHub token loaded:', this.token ? 'YES' : 'NO');
-    console.log('Token starts with:', this.token?.substring(0, 10));
+    console.log('GitHub token loaded:', this.client.hasToken() ? 'YES' : 'NO');
+  }
+
+  // Resolved per call so one service serves whichever instance and token the current request uses
+  private get client() {
+    return getGitHubClient();
   }
 
-  private getCacheKey(endpoint: string): string {
-    return `github_${endpoint.replace(/[^a-zA-Z0-9]/g, '_')}`;
+  private async fetchGitHub<T>(endpoint: string): Promise<T> {
+    const page = await this.fetchGitHubPage<T>(endpoint);
+    return page.data;
   }
 
-  private async fetchGitHub(endpoint: string) {
-    // Check cache first
-    const cacheKey = this.getCacheKey(endpoint);
-    if (this.cache.has(cacheKey)) {
-      console.log(`♻️ Cache hit for: ${endpoint}`);
-      return this.cache.get(cacheKey);
+  // Follows the Link header so callers get every page, not just the first
+  private async fetchAllPages<T>(endpoint: string): Promise<T[]> {
+    const items: T[] = [];
+    let nextEndpoint: string | null = endpoint;
+
+    while (nextEndpoint) {
+      const page: GitHubPage<T[]> = await this.fetchGitHubPage<T[]>(nextEndpoint);
+      items.push(...page.data);
+      nextEndpoint = page.nextEndpoint;
     }
 
+    return items;
+  }
+
+  private parseNextLink(linkHeader: string | null): string | null {
+    if (!linkHeader) return null;
+
+    const next = linkHeader.split(',').find(part => part.includes('rel="next"'));
+    // Absolute, which the client accepts for its own instance
+    return next?.match(/<([^>]+)>/)?.[1] || null;
+  }
+
+  private async fetchGitHubPage<T>(endpoint: string): Promise<GitHubPage<T>> {
     this.callCount++;
     console.log(`📡 API Call #${this.callCount}: ${endpoint}`);
 
-    const headers: Record<string, string> = {
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'GitResume-App'
-    };
-    
-    if (this.token) {
-      headers['Authorization'] = `token ${this.token}`;
+    try {
+      // The client revalidates with ETags, so repeat calls are answered with free 304s
+      const response = await this.client.request<T>(endpoint);
+      return {
+        data: response.data,
+        nextEndpoint: this.parseNextLink(response.link)
+      };
+    } catch (error) {
+      if (error instanceof GitHubApiError) {
+        console.error('GitHub API Error:', error.status, error.message);
+      }
+      throw error;
     }
-    
-    const response = await fetch(`${this.baseUrl}${endpoint}`, { headers });
+  }
+
+  private async fetchGraphQL<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    this.callCount++;
+    console.log(`📡 API Call #${this.callCount}: GraphQL`);
+
+    const response = await this.client.request<{ data: T; errors?: Array<{ message: string }> }>('/graphql', {
+      method: 'POST',
+      body: { query, variables }
+    });
+    const payload = response.data;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('GitHub API Error:', response.status, errorText);
-      throw new Error(`GitHub API error: ${response.status} - ${errorText}`);
+    if (payload.errors?.length) {
+      const details = payload.errors.map(e => e.message).join('; ');
+      console.error('GitHub GraphQL Error:', details);
+      throw new Error(`GitHub GraphQL error: ${details}`);
     }
 
-    const data = await response.json();
-    
-    // Cache for 10 minutes
-    this.cache.set(cacheKey, data);
-    setTimeout(() => this.cache.delete(cacheKey), 10 * 60 * 1000);
-    
-    return data;
+    return payload.data;
+  }
+
+  getRateLimits() {
+    return this.client.getRateLimits();
   }
 
   getCallCount(): number {
@@ -98,10 +228,10 @@ export class GitHubService {
         avatar_url: 'https://github.com/github.png'
       };
     }
-    return this.fetchGitHub(`/users/${username}`);
+    return this.fetchGitHub<GitHubUser>(`/users/${username}`);
   }
 
-  async getUserRepositories(username: string): Promise<GitHubRepo[]> {
+  async getUserRepositories(username: string, options: RepositoryListOptions = {}): Promise<GitHubRepo[]> {
     if (username.toLowerCase() === 'demo') {
       return [
         {
@@ -109,42 +239,120 @@ export class GitHubService {
           description: 'Advanced AI chatbot built with React and OpenAI API',
           language: 'TypeScript', stargazers_count: 245, forks_count: 67, size: 15420,
           created_at: '2023-06-15T10:30:00Z', updated_at: '2024-11-01T14:22:00Z', pushed_at: '2024-11-01T14:22:00Z',
-          html_url: 'https://github.com/demo/ai-chatbot', topics: ['ai', 'chatbot', 'react']
+          html_url: 'https://github.com/demo/ai-chatbot', topics: ['ai', 'chatbot', 'react'],
+          fork: false, archived: false, is_template: false, private: false, default_branch: 'main'
         },
         {
           id: 2, name: 'e-commerce-platform', full_name: 'demo/e-commerce-platform',
           description: 'Full-stack e-commerce platform with Next.js and Stripe',
           language: 'JavaScript', stargazers_count: 189, forks_count: 43, size: 28750,
           created_at: '2023-03-20T09:15:00Z', updated_at: '2024-10-28T16:45:00Z', pushed_at: '2024-10-28T16:45:00Z',
-          html_url: 'https://github.com/demo/e-commerce-platform', topics: ['ecommerce', 'nextjs']
+          html_url: 'https://github.com/demo/e-commerce-platform', topics: ['ecommerce', 'nextjs'],
+          fork: false, archived: false, is_template: false, private: false, default_branch: 'main'
         },
         {
           id: 3, name: 'ml-classifier', full_name: 'demo/ml-classifier',
           description: 'Machine learning image classifier using TensorFlow',
           language: 'Python', stargazers_count: 278, forks_count: 92, size: 23450,
           created_at: '2023-04-18T15:20:00Z', updated_at: '2024-10-10T09:30:00Z', pushed_at: '2024-10-10T09:30:00Z',
-          html_url: 'https://github.com/demo/ml-classifier', topics: ['machine-learning', 'python']
+          html_url: 'https://github.com/demo/ml-classifier', topics: ['machine-learning', 'python'],
+          fork: false, archived: false, is_template: false, private: false, default_branch: 'main'
         },
         {
           id: 4, name: 'blockchain-voting', full_name: 'demo/blockchain-voting',
           description: 'Secure voting system built on Ethereum blockchain',
           language: 'Solidity', stargazers_count: 423, forks_count: 156, size: 8920,
           created_at: '2023-01-12T08:30:00Z', updated_at: '2024-09-15T12:00:00Z', pushed_at: '2024-09-15T12:00:00Z',
-          html_url: 'https://github.com/demo/blockchain-voting', topics: ['blockchain', 'ethereum']
+          html_url: 'https://github.com/demo/blockchain-voting', topics: ['blockchain', 'ethereum'],
+          fork: false, archived: false, is_template: false, private: false, default_branch: 'main'
         }
       ];
     }
     
-    const repos = await this.fetchGitHub(`/users/${username}/repos?sort=updated&per_page=100`);
-    return repos.filter((repo: GitHubRepo) => !repo.name.includes('fork'));
+    const useGraphQL = options.useGraphQL ?? process.env.GITHUB_USE_GRAPHQL === 'true';
+    let repos: GitHubRepo[];
+
+    if (useGraphQL && this.client.hasToken()) {
+      repos = await this.fetchRepositoriesGraphQL(username);
+    } else {
+      if (useGraphQL) {
+        console.log('⚠️ GraphQL listing needs a GitHub token, falling back to REST');
+      }
+      // /users/:name/repos only ever lists public repositories
+      const endpoint = options.includePrivate
+        ? '/user/repos?affiliation=owner&visibility=all&sort=updated&per_page=100'
+        : `/users/${username}/repos?sort=updated&per_page=100`;
+      repos = await this.fetchAllPages<GitHubRepo>(endpoint);
+    }
+
+    return filterRepositories(repos, options);
+  }
+
+  async getOrganization(org: string): Promise<GitHubOrganization> {
+    return this.fetchGitHub<GitHubOrganization>(`/orgs/${org}`);
+  }
+
+  // Public members only, unless the token belongs to a member of the organization
+  async getOrganizationMembers(org: string): Promise<GitHubOrganizationMember[]> {
+    return this.fetchAllPages<GitHubOrganizationMember>(`/orgs/${org}/members?per_page=100`);
+  }
+
+  async getOrganizationRepositories(org: string, options: RepositoryListOptions = {}): Promise<GitHubRepo[]> {
+    const repos = await this.fetchAllPages<GitHubRepo>(`/orgs/${org}/repos?sort=pushed&per_page=100`);
+    return filterRepositories(repos, options);
+  }
+
+  private async fetchRepositoriesGraphQL(username: string): Promise<GitHubRepo[]> {
+    const repos: GitHubRepo[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const data: RepositoriesQueryResult = await this.fetchGraphQL<RepositoriesQueryResult>(REPOSITORIES_QUERY, { login: username, cursor });
+      const connection = data.user?.repositories;
+      if (!connection) break;
+
+      repos.push(...connection.nodes.map(node => this.mapGraphQLRepository(node)));
+      cursor = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+    } while (cursor);
+
+    return repos;
+  }
+
+  private mapGraphQLRepository(node: GraphQLRepositoryNode): GitHubRepo {
+    const languages: Record<string, number> = {};
+    node.languages.edges.forEach(edge => {
+      languages[edge.node.name] = edge.size;
+    });
+
+    return {
+      id: node.databaseId,
+      name: node.name,
+      full_name: node.nameWithOwner,
+      description: node.description,
+      language: node.primaryLanguage?.name ?? '',
+      stargazers_count: node.stargazerCount,
+      forks_count: node.forkCount,
+      size: node.diskUsage ?? 0,
+      created_at: node.createdAt,
+      updated_at: node.updatedAt,
+      pushed_at: node.pushedAt,
+      html_url: node.url,
+      topics: node.repositoryTopics.nodes.map(n => n.topic.name),
+      fork: node.isFork,
+      archived: node.isArchived,
+      is_template: node.isTemplate,
+      private: node.isPrivate,
+      default_branch: node.defaultBranchRef?.name ?? 'main',
+      languages
+    };
   }
 
   async getRepositoryDetails(owner: string, repo: string) {
     const [repoData, languages, contributors, commits] = await Promise.all([
-      this.fetchGitHub(`/repos/${owner}/${repo}`),
-      this.fetchGitHub(`/repos/${owner}/${repo}/languages`),
-      this.fetchGitHub(`/repos/${owner}/${repo}/contributors`),
-      this.fetchGitHub(`/repos/${owner}/${repo}/commits?per_page=10`)
+      this.fetchGitHub<GitHubRepo>(`/repos/${owner}/${repo}`),
+      this.fetchGitHub<Record<string, number>>(`/repos/${owner}/${repo}/languages`),
+      this.fetchGitHub<unknown[]>(`/repos/${owner}/${repo}/contributors`),
+      this.fetchGitHub<unknown[]>(`/repos/${owner}/${repo}/commits?per_page=10`)
     ]);
 
     return {
@@ -157,7 +365,7 @@ export class GitHubService {
 
   async getRepositoryContent(owner: string, repo: string, path: string = '') {
     try {
-      return await this.fetchGitHub(`/repos/${owner}/${repo}/contents/${path}`);
+      return await this.fetchGitHub<unknown>(`/repos/${owner}/${repo}/contents/${path}`);
     } catch (error) {
       return null;
     }
@@ -165,45 +373,7 @@ export class GitHubService {
 
   // Smart repository ranking algorithm
   rankRepositories(repos: GitHubRepo[]): GitHubRepo[] {
-    return repos
-      .map(repo => ({
-        ...repo,
-        score: this.calculateRepoScore(repo)
-      }))
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 8); // Top 8 repositories
-  }
-
-  private calculateRepoScore(repo: GitHubRepo): number {
-    let score = 0;
-    
-    // Stars weight (max 30 points)
-    score += Math.min(repo.stargazers_count * 2, 30);
-    
-    // Forks weight (max 20 points)
-    score += Math.min(repo.forks_count * 3, 20);
-    
-    // Size weight (max 15 points) - larger projects get more points
-    score += Math.min(repo.size / 1000, 15);
-    
-    // Language popularity (max 10 points)
-    const popularLanguages = ['JavaScript', 'TypeScript', 'Python', 'Java', 'Go', 'Rust'];
-    if (popularLanguages.includes(repo.language)) {
-      score += 10;
-    }
-    
-    // Recent activity (max 15 points)
-    const daysSinceUpdate = (Date.now() - new Date(repo.updated_at).getTime()) / (1000 * 60 * 60 * 24);
-    if (daysSinceUpdate < 30) score += 15;
-    else if (daysSinceUpdate < 90) score += 10;
-    else if (daysSinceUpdate < 180) score += 5;
-    
-    // Description quality (max 10 points)
-    if (repo.description && repo.description.length > 20) {
-      score += 10;
-    }
-    
-    return score;
+    return rankRepositories(repos);
   }
 
   // Hybrid search implementation
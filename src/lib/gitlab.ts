@@ -0,0 +1,124 @@
+import { ProviderApiError, fetchProviderJson } from './provider-http';
+import { filterRepositories } from './repository-listing';
+import type { ProviderRepository, RepositoryProvider } from './repository-provider';
+
+interface GitLabUser {
+  id: number;
+  username: string;
+  name: string;
+  avatar_url: string;
+  web_url: string;
+  // Only returned by the single-user endpoint
+  bio?: string;
+  created_at?: string;
+  followers?: number;
+  following?: number;
+}
+
+interface GitLabProject {
+  id: number;
+  path: string;
+  path_with_namespace: string;
+  description: string | null;
+  star_count: number;
+  forks_count: number;
+  created_at: string;
+  last_activity_at: string;
+  web_url: string;
+  topics?: string[];
+  // Older instances call topics tag_list
+  tag_list?: string[];
+  forked_from_project?: { id: number };
+  archived: boolean;
+  // public, internal or private
+  visibility?: string;
+  default_branch?: string;
+}
+
+const PER_PAGE = 100;
+const MAX_PAGES = 10;
+
+// GITLAB_URL points at a self-hosted instance; gitlab.com otherwise
+function getBaseUrl(): string {
+  return (process.env.GITLAB_URL || 'https://gitlab.com').replace(/\/+$/, '');
+}
+
+function api<T>(path: string) {
+  const token = process.env.GITLAB_TOKEN;
+  return fetchProviderJson<T>('GitLab', `${getBaseUrl()}/api/v4${path}`, token ? { 'PRIVATE-TOKEN': token } : {});
+}
+
+async function findUser(username: string): Promise<GitLabUser> {
+  const { data: matches } = await api<GitLabUser[]>(`/users?username=${encodeURIComponent(username)}`);
+  if (!matches[0]) {
+    throw new ProviderApiError('GitLab', 404, `${getBaseUrl()}/api/v4/users`, `User ${username} not found`);
+  }
+  // The listing leaves out bio, join date and follower counts
+  const { data: user } = await api<GitLabUser>(`/users/${matches[0].id}`);
+  return user;
+}
+
+function toRepository(project: GitLabProject): ProviderRepository {
+  return {
+    provider: 'gitlab',
+    id: project.id,
+    // The path, not the display name, is what clone URLs and analysis use
+    name: project.path,
+    full_name: project.path_with_namespace,
+    description: project.description || '',
+    // Listings don't include languages
+    language: '',
+    stargazers_count: project.star_count,
+    forks_count: project.forks_count,
+    size: 0,
+    created_at: project.created_at,
+    updated_at: project.last_activity_at,
+    pushed_at: project.last_activity_at,
+    html_url: project.web_url,
+    topics: project.topics || project.tag_list || [],
+    fork: Boolean(project.forked_from_project),
+    archived: project.archived,
+    is_template: false,
+    // Internal projects are only visible to signed-in users of the instance
+    private: Boolean(project.visibility) && project.visibility !== 'public',
+    default_branch: project.default_branch || 'main'
+  };
+}
+
+export const gitlabProvider: RepositoryProvider = {
+  id: 'gitlab',
+  name: 'GitLab',
+  async getUserProfile(username) {
+    const user = await findUser(username);
+    // X-Total is the project count without paging through them
+    const { headers } = await api<GitLabProject[]>(`/users/${user.id}/projects?per_page=1`);
+
+    return {
+      provider: 'gitlab',
+      login: user.username,
+      name: user.name,
+      bio: user.bio || '',
+      public_repos: Number(headers.get('x-total')) || 0,
+      followers: user.followers ?? 0,
+      following: user.following ?? 0,
+      created_at: user.created_at || '',
+      avatar_url: user.avatar_url,
+      html_url: user.web_url
+    };
+  },
+  async getUserRepositories(username, options) {
+    const user = await findUser(username);
+    const projects: GitLabProject[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const { data, headers } = await api<GitLabProject[]>(
+        `/users/${user.id}/projects?per_page=${PER_PAGE}&page=${page}&order_by=last_activity_at`
+      );
+      projects.push(...data);
+      if (!headers.get('x-next-page')) break;
+    }
+
+    return filterRepositories(projects.map(toRepository), options);
+  },
+  cloneUrl: (owner, repo) => `${getBaseUrl()}/${owner}/${repo}.git`
+};
@@ -0,0 +1,127 @@
+import { fetchContributors } from './commit-history';
+import { RepositorySnapshot } from './repository-snapshot';
+
+export type LanguageFamily = 'web' | 'data' | 'mobile' | 'systems' | 'backend';
+
+export interface LanguageShare {
+  language: string;
+  // Raw bytes across all analyzed repositories
+  bytes: number;
+  // Share of the recency- and authorship-weighted total, 0-100
+  percentage: number;
+  repositories: string[];
+}
+
+// How much one repository counts towards the profile
+export interface RepositoryLanguageWeight {
+  repository: string;
+  bytes: number;
+  // 1 for a push today, halving every year
+  recency: number;
+  // The user's share of commits, or 1 when contributors are unknown
+  authorship: number;
+  weight: number;
+}
+
+export interface LanguageProfile {
+  languages: LanguageShare[];
+  totalBytes: number;
+  repositories: RepositoryLanguageWeight[];
+}
+
+const RECENCY_HALF_LIFE_DAYS = 365;
+const MIN_RECENCY = 0.1;
+// A listed repository the user never committed to still says a little about them
+const NON_CONTRIBUTOR_AUTHORSHIP = 0.1;
+// Languages under this share are left out of resume skills
+export const MIN_SKILL_PERCENTAGE = 3;
+
+const LANGUAGE_FAMILIES: Record<LanguageFamily, string[]> = {
+  web: ['TypeScript', 'JavaScript', 'HTML', 'CSS', 'SCSS', 'Vue', 'Svelte', 'Astro'],
+  data: ['Python', 'Jupyter Notebook', 'R', 'Julia'],
+  mobile: ['Swift', 'Kotlin', 'Dart', 'Objective-C'],
+  systems: ['C', 'C++', 'Rust', 'Go', 'Zig', 'Assembly'],
+  backend: ['Java', 'C#', 'Scala', 'Ruby', 'PHP', 'Elixir', 'Erlang', 'Groovy']
+};
+
+function recencyWeight(pushedAt: string | undefined, now: Date): number {
+  if (!pushedAt) return MIN_RECENCY;
+  const ageDays = Math.max(0, (now.getTime() - new Date(pushedAt).getTime()) / 86_400_000);
+  return Math.max(MIN_RECENCY, 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS));
+}
+
+async function authorshipWeight(username: string, snapshot: RepositorySnapshot): Promise<number> {
+  const contributors = await fetchContributors(snapshot);
+  const total = contributors?.reduce((sum, contributor) => sum + contributor.contributions, 0);
+  if (!contributors || !total) return 1;
+
+  const own = contributors.find(contributor => contributor.login.toLowerCase() === username.toLowerCase());
+  return own ? own.contributions / total : NON_CONTRIBUTOR_AUTHORSHIP;
+}
+
+// Byte shares across repositories, so a 50k-line TypeScript app outweighs a one-file Python helper
+export async function buildLanguageProfile(username: string, snapshots: RepositorySnapshot[], now = new Date()): Promise<LanguageProfile> {
+  const weighted = new Map<string, number>();
+  const raw = new Map<string, LanguageShare>();
+  const repositories: RepositoryLanguageWeight[] = [];
+
+  for (const snapshot of snapshots) {
+    const bytes = Object.values(snapshot.languageBytes).reduce((sum, count) => sum + count, 0);
+    if (bytes === 0) continue;
+
+    const recency = recencyWeight(snapshot.info.pushed_at, now);
+    const authorship = await authorshipWeight(username, snapshot);
+    const weight = recency * authorship;
+    repositories.push({
+      repository: snapshot.repo,
+      bytes,
+      recency: Math.round(recency * 100) / 100,
+      authorship: Math.round(authorship * 100) / 100,
+      weight: Math.round(weight * 100) / 100
+    });
+
+    for (const [language, count] of Object.entries(snapshot.languageBytes)) {
+      weighted.set(language, (weighted.get(language) || 0) + count * weight);
+      const share = raw.get(language) || { language, bytes: 0, percentage: 0, repositories: [] };
+      share.bytes += count;
+      share.repositories.push(snapshot.repo);
+      raw.set(language, share);
+    }
+  }
+
+  const weightedTotal = Array.from(weighted.values()).reduce((sum, value) => sum + value, 0);
+  const languages = Array.from(raw.values())
+    .map(share => ({ ...share, percentage: weightedTotal ? Math.round(((weighted.get(share.language) || 0) / weightedTotal) * 1000) / 10 : 0 }))
+    .sort((a, b) => b.percentage - a.percentage);
+
+  console.log(`🧮 Language profile for ${username}: ${languages.slice(0, 3).map(l => `${l.language} ${l.percentage}%`).join(', ') || 'no language data'}`);
+
+  return {
+    languages,
+    totalBytes: repositories.reduce((sum, repo) => sum + repo.bytes, 0),
+    repositories
+  };
+}
+
+// Request bodies carry the profile back from the client, so check its shape before trusting it
+export function isLanguageProfile(value: unknown): value is LanguageProfile {
+  const profile = value as LanguageProfile | null;
+  return Boolean(profile) && Array.isArray(profile?.languages) && profile!.languages.every(share =>
+    typeof share?.language === 'string' && typeof share.percentage === 'number'
+  );
+}
+
+// Languages worth listing on a resume, most used first
+export function getSkillLanguages(profile: LanguageProfile): string[] {
+  return profile.languages.filter(share => share.percentage >= MIN_SKILL_PERCENTAGE).map(share => share.language);
+}
+
+// Weighted percentage per language family, for role detection
+export function getFamilyShares(profile: LanguageProfile): Record<LanguageFamily, number> {
+  const shares = { web: 0, data: 0, mobile: 0, systems: 0, backend: 0 };
+  for (const share of profile.languages) {
+    const family = (Object.keys(LANGUAGE_FAMILIES) as LanguageFamily[]).find(name => LANGUAGE_FAMILIES[name].includes(share.language));
+    if (family) shares[family] += share.percentage;
+  }
+  return shares;
+}
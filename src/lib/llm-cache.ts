@@ -0,0 +1,44 @@
+import { createHash } from 'crypto';
+import { getCacheStore } from './cache';
+import type { LLMProvider } from './llm-provider';
+import type { OutputProvenance } from './structured-output';
+
+// Identifies what a prompt was rendered from, so a template change or a new commit misses the cache
+export interface LLMCacheContext {
+  template: string;
+  version: number;
+  // Commit SHA(s) of the repositories the prompt describes
+  commitSha: string;
+  // Skip the lookup and overwrite whatever is stored
+  forceRefresh?: boolean;
+}
+
+export interface CachedLLMResponse {
+  response: string;
+  provenance: OutputProvenance;
+  attempts: number;
+  cachedAt: string;
+}
+
+export function llmCacheKey(llm: LLMProvider, prompt: string, context: LLMCacheContext): string {
+  const promptHash = createHash('sha256').update(prompt).digest('hex');
+  return `llm-response:v1:${llm.name}:${llm.model}:${context.template}@${context.version}:${promptHash}:${context.commitSha}`;
+}
+
+// Cache failures only cost a model call, so they are logged and treated as misses
+export async function loadCachedResponse(key: string): Promise<CachedLLMResponse | null> {
+  try {
+    return await getCacheStore().get<CachedLLMResponse>(key);
+  } catch (error) {
+    console.log('⚠️ LLM cache read failed:', error);
+    return null;
+  }
+}
+
+export async function saveCachedResponse(key: string, entry: Omit<CachedLLMResponse, 'cachedAt'>): Promise<void> {
+  try {
+    await getCacheStore().set(key, { ...entry, cachedAt: new Date().toISOString() });
+  } catch (error) {
+    console.log('⚠️ LLM cache write failed:', error);
+  }
+}
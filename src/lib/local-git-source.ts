@@ -0,0 +1,247 @@
+import { execFile } from 'child_process';
+import { existsSync, mkdirSync } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { getDataDirectory } from './data-directory';
+import type { GitTreeEntry } from './github-tree';
+import type { ProviderId } from './repository-provider';
+import type { RepositoryContributor, RepositorySource, SourceCommit } from './repository-source';
+
+const execFileAsync = promisify(execFile);
+
+// Clones of large repositories can take a while; everything else is local and fast
+const GIT_TIMEOUT_MS = 5 * 60_000;
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+const SAFE_NAME = /^[A-Za-z0-9_.-]+$/;
+// 12345+octocat@users.noreply.github.com -> octocat
+const NOREPLY_EMAIL = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i;
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+
+interface LocalRepository {
+  directory: string;
+  // Cloned by us under the data directory, as opposed to a checkout we only read
+  managed: boolean;
+}
+
+// One clone or fetch per repository per process, shared by concurrent analyses
+const repositories = new Map<string, Promise<LocalRepository>>();
+// Commits whose blobs are already local
+const prefetched = new Set<string>();
+const checkoutLocks = new Map<string, Promise<void>>();
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: GIT_MAX_BUFFER, encoding: 'utf8' });
+  return stdout;
+}
+
+function loginFromAuthor(name: string, email: string): string {
+  return email.match(NOREPLY_EMAIL)?.[1] || name;
+}
+
+type CloneUrl = (owner: string, repo: string) => string;
+
+async function openRepository(provider: ProviderId, cloneUrl: CloneUrl, owner: string, repo: string): Promise<LocalRepository> {
+  // Names end up in paths and clone URLs
+  if (![owner, repo].every(name => SAFE_NAME.test(name) && name !== '.' && name !== '..')) {
+    throw new Error(`Invalid repository name ${owner}/${repo}`);
+  }
+
+  // Existing checkouts or mirrors are read as they are, without fetching
+  const localRoot = process.env.GITRESUME_LOCAL_REPOS;
+  if (localRoot) {
+    const existing = [path.join(localRoot, owner, repo), path.join(localRoot, repo)].find(candidate => existsSync(candidate));
+    if (existing) return { directory: existing, managed: false };
+  }
+
+  // GitHub clones keep their original location; other providers get their own namespace
+  const directory = provider === 'github' ? getDataDirectory('clones', owner, repo) : getDataDirectory('clones', provider, owner, repo);
+  if (existsSync(path.join(directory, '.git'))) {
+    console.log(`🔄 Fetching ${owner}/${repo} into ${directory}...`);
+    await git(directory, ['fetch', '--quiet', '--prune', 'origin']);
+    return { directory, managed: true };
+  }
+
+  // Blob-less by default so history is cheap; GITRESUME_CLONE_DEPTH trades history for a shallow clone
+  const depth = Number(process.env.GITRESUME_CLONE_DEPTH);
+  const mode = depth > 0 ? ['--depth', String(depth), '--no-single-branch'] : ['--filter=blob:none'];
+  console.log(`📥 Cloning ${owner}/${repo} into ${directory}...`);
+  mkdirSync(path.dirname(directory), { recursive: true });
+  await git(path.dirname(directory), ['clone', '--quiet', '--no-checkout', ...mode, cloneUrl(owner, repo), directory]);
+  return { directory, managed: true };
+}
+
+function locateRepository(provider: ProviderId, cloneUrl: CloneUrl, owner: string, repo: string): Promise<LocalRepository> {
+  const key = `${provider}:${owner}/${repo}`;
+  if (!repositories.has(key)) {
+    repositories.set(key, openRepository(provider, cloneUrl, owner, repo).catch(error => {
+      repositories.delete(key);
+      throw error;
+    }));
+  }
+  return repositories.get(key)!;
+}
+
+// Checking the commit out fetches its missing blobs in one request instead of one per file
+async function prefetchBlobs(repository: LocalRepository, commitSha: string): Promise<void> {
+  const key = `${repository.directory}@${commitSha}`;
+  if (!repository.managed || prefetched.has(key)) return;
+
+  const previous = checkoutLocks.get(repository.directory) || Promise.resolve();
+  const checkout = previous.then(async () => {
+    if ((await git(repository.directory, ['config', '--get', 'remote.origin.promisor']).catch(() => '')).trim() === 'true') {
+      await git(repository.directory, ['-c', 'advice.detachedHead=false', 'checkout', '--quiet', '--force', '--detach', commitSha]);
+    }
+    prefetched.add(key);
+  });
+  checkoutLocks.set(repository.directory, checkout.catch(() => undefined));
+  await checkout;
+}
+
+function parseCommits(output: string): SourceCommit[] {
+  return output.split(RECORD).map(record => record.replace(/^\n/, '')).filter(Boolean).map(record => {
+    const [sha, name, email, date, message] = record.split(FIELD);
+    return {
+      sha,
+      message: (message || '').trim(),
+      date: date || null,
+      authorName: name || null,
+      authorLogin: loginFromAuthor(name, email) || null
+    };
+  });
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Reads repositories of one provider from local clones made with cloneUrl
+export function createLocalGitSource(provider: ProviderId, cloneUrl: CloneUrl): RepositorySource {
+  const locate = (owner: string, repo: string) => locateRepository(provider, cloneUrl, owner, repo);
+
+  return {
+    kind: 'local',
+    provider,
+    async getInfo(owner, repo) {
+      const { directory, managed } = await locate(owner, repo);
+      // Managed clones leave HEAD detached at the last analyzed commit, so their default branch comes from origin/HEAD
+      const branch = managed
+        ? (await git(directory, ['symbolic-ref', '--short', 'refs/remotes/origin/HEAD'])).trim().replace(/^origin\//, '')
+        : (await git(directory, ['symbolic-ref', '--short', 'HEAD']).catch(() => 'HEAD')).trim();
+      const tip = managed ? `origin/${branch}` : branch;
+      const [remote, lastCommit, rootCommits] = await Promise.all([
+        git(directory, ['config', '--get', 'remote.origin.url']).catch(() => ''),
+        git(directory, ['log', '-1', '--format=%cI', tip]),
+        git(directory, ['log', '--max-parents=0', '--format=%aI', tip])
+      ]);
+      const pushedAt = lastCommit.trim();
+
+      return {
+        name: repo,
+        full_name: `${owner}/${repo}`,
+        html_url: remote.trim().replace(/\.git$/, ''),
+        default_branch: branch,
+        created_at: rootCommits.trim().split('\n').sort()[0] || pushedAt,
+        updated_at: pushedAt,
+        pushed_at: pushedAt,
+        fork: false,
+        archived: false
+      };
+    },
+    async resolveCommit(owner, repo, ref) {
+      if (ref.startsWith('-')) throw new Error(`Invalid ref ${ref}`);
+      const { directory, managed } = await locate(owner, repo);
+
+      // Fetches only move remote-tracking branches, so managed clones look there first
+      const candidates = managed ? [`origin/${ref}`, ref] : [ref, `origin/${ref}`];
+      for (const candidate of candidates) {
+        const sha = await git(directory, ['rev-parse', '--verify', '--quiet', `${candidate}^{commit}`]).catch(() => '');
+        if (sha.trim()) return { ref, sha: sha.trim() };
+      }
+      throw new Error(`Unknown ref ${ref} in ${owner}/${repo}`);
+    },
+    async getTree(owner, repo, commitSha) {
+      const repository = await locate(owner, repo);
+      await prefetchBlobs(repository, commitSha);
+      const output = await git(repository.directory, ['ls-tree', '-r', '-t', '-l', '-z', '--full-tree', commitSha]);
+
+      // <mode> <type> <sha> <size>\t<path>, size is "-" for trees and submodules
+      return output.split('\0').filter(Boolean).map((line): GitTreeEntry => {
+        const [meta, entryPath] = line.split('\t');
+        const [mode, type, sha, size] = meta.split(/\s+/);
+        return {
+          path: entryPath,
+          mode,
+          type: type as GitTreeEntry['type'],
+          sha,
+          size: size === '-' ? undefined : Number(size),
+          url: ''
+        };
+      });
+    },
+    async getReadme(owner, repo, commitSha) {
+      const { directory } = await locate(owner, repo);
+      const rootFiles = (await git(directory, ['ls-tree', '--name-only', commitSha])).split('\n');
+      const readme = rootFiles.find(file => /^readme(\.|$)/i.test(file));
+      if (!readme) {
+        console.log(`No README found for ${repo}`);
+        return '';
+      }
+      return git(directory, ['show', `${commitSha}:${readme}`]);
+    },
+    async readFile(owner, repo, entry) {
+      const { directory } = await locate(owner, repo);
+      return git(directory, ['cat-file', 'blob', entry.sha]);
+    },
+    async listCommits(owner, repo, commitSha, { author, perPage, page = 1 }) {
+      const { directory } = await locate(owner, repo);
+      const output = await git(directory, [
+        'log',
+        `--format=%H${FIELD}%an${FIELD}%ae${FIELD}%aI${FIELD}%B${RECORD}`,
+        `--max-count=${perPage}`,
+        `--skip=${(page - 1) * perPage}`,
+        // Matches the author name or email, which covers GitHub noreply addresses
+        ...(author ? [`--author=${escapeRegExp(author)}`, '--regexp-ignore-case'] : []),
+        commitSha
+      ]);
+      return parseCommits(output);
+    },
+    async getCommitFiles(owner, repo, commitSha) {
+      const { directory } = await locate(owner, repo);
+      const output = await git(directory, ['show', '--no-renames', '--name-only', '--format=', commitSha]);
+      return output.split('\n').filter(Boolean);
+    },
+    async getContributors(owner, repo, commitSha) {
+      const { directory } = await locate(owner, repo);
+      const output = await git(directory, ['shortlog', '-sne', commitSha]);
+      const contributors = new Map<string, RepositoryContributor>();
+
+      for (const line of output.split('\n')) {
+        const match = line.match(/^\s*(\d+)\t(.*) <([^>]*)>$/);
+        if (!match) continue;
+        const login = loginFromAuthor(match[2], match[3]);
+        const contributor = contributors.get(login.toLowerCase()) || { login, contributions: 0 };
+        contributor.contributions += Number(match[1]);
+        contributors.set(login.toLowerCase(), contributor);
+      }
+
+      return Array.from(contributors.values()).sort((a, b) => b.contributions - a.contributions);
+    },
+    async blame(owner, repo, commitSha, filePath) {
+      const { directory } = await locate(owner, repo);
+      const output = await git(directory, ['blame', '--line-porcelain', commitSha, '--', filePath]);
+      const lines: Record<string, number> = {};
+      let name = '';
+
+      for (const line of output.split('\n')) {
+        if (line.startsWith('author ')) name = line.slice('author '.length);
+        if (line.startsWith('author-mail ')) {
+          const login = loginFromAuthor(name, line.slice('author-mail '.length).replace(/^<|>$/g, ''));
+          lines[login] = (lines[login] || 0) + 1;
+        }
+      }
+
+      return lines;
+    }
+  };
+}
@@ -0,0 +1,281 @@
+export type Ecosystem = 'npm' | 'pypi' | 'go' | 'cargo' | 'maven' | 'rubygems' | 'composer' | 'nuget';
+
+export interface ParsedDependency {
+  name: string;
+  // Version or constraint as declared, e.g. "^18.2.0", ">=3.0" or "1.16"; null when unpinned
+  version: string | null;
+  ecosystem: Ecosystem;
+  // Path of the manifest that declared it
+  manifest: string;
+  // Development, test or build-only dependency
+  dev: boolean;
+}
+
+type ManifestParser = (content: string) => Omit<ParsedDependency, 'ecosystem' | 'manifest'>[];
+
+interface ManifestFormat {
+  ecosystem: Ecosystem;
+  matches: (fileName: string) => boolean;
+  parse: ManifestParser;
+}
+
+// A TOML table: [section] name -> key -> raw value
+type TomlTables = Record<string, Record<string, string>>;
+
+const PEP508_NAME = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)(\[[^\]]*\])?\s*(.*)$/;
+
+function dependency(name: string, version: string | null | undefined, dev = false) {
+  const trimmed = version?.trim().replace(/^["']|["']$/g, '');
+  return { name, version: trimmed && trimmed !== '*' ? trimmed : null, dev };
+}
+
+function parsePackageJson(content: string) {
+  const manifest = JSON.parse(content);
+  const sections: [string, boolean][] = [['dependencies', false], ['peerDependencies', false], ['devDependencies', true]];
+  return sections.flatMap(([key, dev]) =>
+    Object.entries((manifest[key] || {}) as Record<string, string>).map(([name, version]) => dependency(name, version, dev))
+  );
+}
+
+function parseComposerJson(content: string) {
+  const manifest = JSON.parse(content);
+  const sections: [string, boolean][] = [['require', false], ['require-dev', true]];
+  return sections.flatMap(([key, dev]) =>
+    Object.entries((manifest[key] || {}) as Record<string, string>)
+      // php and ext-* pin the runtime, not a package
+      .filter(([name]) => name !== 'php' && !name.startsWith('ext-'))
+      .map(([name, version]) => dependency(name, version, dev))
+  );
+}
+
+// "flask[async]>=3.0; python_version>'3.8'" -> flask, >=3.0
+function parsePep508(requirement: string, dev = false) {
+  const match = requirement.split(';')[0].match(PEP508_NAME);
+  if (!match) return null;
+  return dependency(match[1], match[3].replace(/[()]/g, '') || null, dev);
+}
+
+function parseRequirementsTxt(content: string) {
+  return content.split('\n')
+    .map(line => line.replace(/\s+#.*$/, '').trim())
+    // Skip comments, options like -r/-e/--index-url, and direct URLs
+    .filter(line => line && !line.startsWith('#') && !line.startsWith('-') && !line.includes('://'))
+    .map(line => parsePep508(line))
+    .filter((dep): dep is NonNullable<typeof dep> => dep !== null);
+}
+
+// Enough TOML for manifests: tables, key = value pairs, and arrays that span lines
+function parseToml(content: string): TomlTables {
+  const tables: TomlTables = { '': {} };
+  let current = '';
+  let pendingKey: string | null = null;
+  let pendingValue = '';
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s+#.*$/, '').trim();
+    if (pendingKey) {
+      pendingValue += ` ${line}`;
+      if (line.endsWith(']')) {
+        tables[current][pendingKey] = pendingValue;
+        pendingKey = null;
+      }
+      continue;
+    }
+    if (!line || line.startsWith('#')) continue;
+
+    const header = line.match(/^\[\[?([^\]]+)\]\]?$/);
+    if (header) {
+      current = header[1].trim();
+      tables[current] = tables[current] || {};
+      continue;
+    }
+
+    const separator = line.indexOf('=');
+    if (separator <= 0) continue;
+    const key = line.slice(0, separator).trim().replace(/^["']|["']$/g, '');
+    const value = line.slice(separator + 1).trim();
+    if (value.startsWith('[') && !value.endsWith(']')) {
+      pendingKey = key;
+      pendingValue = value;
+    } else {
+      tables[current][key] = value;
+    }
+  }
+
+  return tables;
+}
+
+function tomlStrings(value: string): string[] {
+  return Array.from(value.matchAll(/"([^"]*)"|'([^']*)'/g), match => match[1] ?? match[2]);
+}
+
+// Table values are either "1.0" or { version = "1.0", features = [...] }
+function tomlVersion(value: string): string | null {
+  if (value.startsWith('{')) {
+    return value.match(/version\s*=\s*["']([^"']+)["']/)?.[1] || null;
+  }
+  return tomlStrings(value)[0] ?? null;
+}
+
+function tomlTableDependencies(table: Record<string, string> | undefined, dev: boolean, skip: string[] = []) {
+  return Object.entries(table || {})
+    .filter(([name]) => !skip.includes(name))
+    .map(([name, value]) => dependency(name, tomlVersion(value), dev));
+}
+
+function parsePyprojectToml(content: string) {
+  const tables = parseToml(content);
+  const pep621 = tomlStrings(tables.project?.dependencies || '').map(requirement => parsePep508(requirement));
+  const optional = Object.values(tables['project.optional-dependencies'] || {})
+    .flatMap(value => tomlStrings(value).map(requirement => parsePep508(requirement, true)));
+
+  return [
+    ...[...pep621, ...optional].filter((dep): dep is NonNullable<typeof dep> => dep !== null),
+    ...tomlTableDependencies(tables['tool.poetry.dependencies'], false, ['python']),
+    ...tomlTableDependencies(tables['tool.poetry.dev-dependencies'], true),
+    ...tomlTableDependencies(tables['tool.poetry.group.dev.dependencies'], true)
+  ];
+}
+
+function parsePipfile(content: string) {
+  const tables = parseToml(content);
+  return [
+    ...tomlTableDependencies(tables.packages, false),
+    ...tomlTableDependencies(tables['dev-packages'], true)
+  ];
+}
+
+function parseCargoToml(content: string) {
+  const tables = parseToml(content);
+  const sections: [string, boolean][] = [['dependencies', false], ['dev-dependencies', true], ['build-dependencies', true]];
+
+  return sections.flatMap(([section, dev]) => [
+    ...tomlTableDependencies(tables[section], dev),
+    // [dependencies.serde] with version = "1.0" inside
+    ...Object.entries(tables)
+      .filter(([name]) => name.startsWith(`${section}.`))
+      .map(([name, table]) => dependency(name.slice(section.length + 1), table.version, dev))
+  ]);
+}
+
+function parseGoMod(content: string) {
+  const deps: ReturnType<typeof dependency>[] = [];
+  let inRequireBlock = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (line.startsWith('require (')) {
+      inRequireBlock = true;
+      continue;
+    }
+    if (inRequireBlock && line === ')') {
+      inRequireBlock = false;
+      continue;
+    }
+
+    const requirement = inRequireBlock ? line : line.match(/^require\s+(.+)$/)?.[1];
+    const [name, version] = requirement?.split(/\s+/) || [];
+    // Indirect requirements are transitive, not chosen by the author
+    if (name && version && !rawLine.includes('// indirect')) {
+      deps.push(dependency(name, version));
+    }
+  }
+
+  return deps;
+}
+
+function xmlValue(block: string, tag: string): string | null {
+  return block.match(new RegExp(`<${tag}>\\s*([^<]+?)\\s*</${tag}>`))?.[1] || null;
+}
+
+function parsePomXml(content: string) {
+  const properties: Record<string, string> = {};
+  const propertiesBlock = content.match(/<properties>([\s\S]*?)<\/properties>/)?.[1] || '';
+  for (const match of propertiesBlock.matchAll(/<([\w.-]+)>([^<]*)<\/\1>/g)) {
+    properties[match[1]] = match[2].trim();
+  }
+
+  return Array.from(content.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g), ([, block]) => {
+    const groupId = xmlValue(block, 'groupId');
+    const artifactId = xmlValue(block, 'artifactId');
+    if (!groupId || !artifactId) return null;
+    // ${spring.version} style versions resolve from <properties>
+    const version = xmlValue(block, 'version')?.replace(/\$\{([^}]+)\}/g, (placeholder, key: string) => properties[key] || placeholder);
+    return dependency(`${groupId}:${artifactId}`, version, xmlValue(block, 'scope') === 'test');
+  }).filter((dep): dep is NonNullable<typeof dep> => dep !== null);
+}
+
+function parseGradle(content: string) {
+  const pattern = /\b(implementation|api|compileOnly|runtimeOnly|kapt|annotationProcessor|testImplementation|androidTestImplementation|testRuntimeOnly)\s*\(?\s*["']([^"':]+):([^"':]+)(?::([^"']+))?["']/g;
+  return Array.from(content.matchAll(pattern), ([, configuration, group, artifact, version]) =>
+    dependency(`${group}:${artifact}`, version, /^(test|androidTest)/.test(configuration))
+  );
+}
+
+function parseGemfile(content: string) {
+  let inDevGroup = false;
+  const deps: ReturnType<typeof dependency>[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (/^group\s.*\b(development|test)\b.*\bdo$/.test(line)) inDevGroup = true;
+    if (line === 'end') inDevGroup = false;
+
+    const gem = line.match(/^gem\s+["']([^"']+)["'](?:\s*,\s*["']([^"']+)["'])?/);
+    if (gem) {
+      deps.push(dependency(gem[1], gem[2], inDevGroup));
+    }
+  }
+
+  return deps;
+}
+
+function parseCsproj(content: string) {
+  // <PackageReference Include="X" Version="1.0" /> or with a nested <Version> element
+  const pattern = /<PackageReference\s+([^>]*?)(?:\/>|>([\s\S]*?)<\/PackageReference>)/g;
+  return Array.from(content.matchAll(pattern), ([, attributes, body]) => {
+    const name = attributes.match(/Include\s*=\s*"([^"]+)"/)?.[1];
+    const version = attributes.match(/Version\s*=\s*"([^"]+)"/)?.[1] ?? (body ? xmlValue(body, 'Version') : null);
+    return name ? dependency(name, version) : null;
+  }).filter((dep): dep is NonNullable<typeof dep> => dep !== null);
+}
+
+const MANIFEST_FORMATS: ManifestFormat[] = [
+  { ecosystem: 'npm', matches: name => name === 'package.json', parse: parsePackageJson },
+  { ecosystem: 'pypi', matches: name => name === 'requirements.txt', parse: parseRequirementsTxt },
+  { ecosystem: 'pypi', matches: name => name === 'pyproject.toml', parse: parsePyprojectToml },
+  { ecosystem: 'pypi', matches: name => name === 'Pipfile', parse: parsePipfile },
+  { ecosystem: 'go', matches: name => name === 'go.mod', parse: parseGoMod },
+  { ecosystem: 'cargo', matches: name => name === 'Cargo.toml', parse: parseCargoToml },
+  { ecosystem: 'maven', matches: name => name === 'pom.xml', parse: parsePomXml },
+  { ecosystem: 'maven', matches: name => name === 'build.gradle' || name === 'build.gradle.kts', parse: parseGradle },
+  { ecosystem: 'rubygems', matches: name => name === 'Gemfile', parse: parseGemfile },
+  { ecosystem: 'composer', matches: name => name === 'composer.json', parse: parseComposerJson },
+  { ecosystem: 'nuget', matches: name => name.endsWith('.csproj'), parse: parseCsproj }
+];
+
+function findFormat(path: string): ManifestFormat | undefined {
+  const fileName = path.split('/').pop() || '';
+  return MANIFEST_FORMATS.find(format => format.matches(fileName));
+}
+
+export function isManifestFile(path: string): boolean {
+  return findFormat(path) !== undefined;
+}
+
+// A malformed manifest yields no dependencies rather than failing the snapshot
+export function parseManifest(path: string, content: string): ParsedDependency[] {
+  const format = findFormat(path);
+  if (!format) return [];
+
+  try {
+    return format.parse(content).map(dep => ({ ...dep, ecosystem: format.ecosystem, manifest: path }));
+  } catch {
+    console.log(`Failed to parse manifest ${path}`);
+    return [];
+  }
+}
+
+export function parseManifests(manifests: Record<string, string>): ParsedDependency[] {
+  return Object.entries(manifests).flatMap(([path, content]) => parseManifest(path, content));
+}
@@ -0,0 +1,344 @@
+import { AgentDescriptor } from './analysis-agents';
+import { AnalysisMode, DEFAULT_ANALYSIS_MODE, getAnalysisEngine, runAnalysisPipeline } from './analysis-pipeline';
+import { cached } from './cache';
+import type { GitHubOrganization, GitHubOrganizationMember } from './github';
+import { GitHubApiError, getGitHubClient } from './github-client';
+import { getSkillLanguages } from './language-profile';
+import { rankRepositories } from './repository-listing';
+import { RepositoryMaturity, assessRepositoryMaturity } from './repository-maturity';
+import { getGitHubService } from './repository-provider';
+import { buildRepositorySnapshot } from './repository-snapshot';
+import { getRepositorySource } from './repository-source';
+
+export interface OrganizationAnalysisOptions {
+  mode?: AnalysisMode;
+  // Members analyzed, in the order GitHub lists them
+  memberLimit?: number;
+  // Top-ranked organization repositories assessed for maturity and the tech-stack matrix
+  repositoryLimit?: number;
+  // Top-ranked own repositories analyzed per member
+  repositoriesPerMember?: number;
+  // Called as members are analyzed; a cached report finishes without calling it
+  onProgress?: (progress: OrganizationProgress) => void;
+}
+
+export interface OrganizationProgress {
+  completedMembers: number;
+  totalMembers: number;
+  // Member being analyzed, null while repositories are assessed and once all members are done
+  currentMember: string | null;
+}
+
+export interface MemberAnalysis {
+  login: string;
+  avatarUrl: string;
+  repositories: string[];
+  overallScore: number | null;
+  // agent slug -> score, as in a single-user report; null for categories with only placeholder scores
+  categoryScores: Record<string, number | null>;
+  languages: string[];
+  frameworks: string[];
+  // Patterns the member's insights share across their repositories
+  crossRepoPatterns: string[];
+  detectedRole: string | null;
+  // Why the member was left out of the roll-up
+  error: string | null;
+}
+
+export interface OrganizationRepository extends RepositoryMaturity {
+  language: string;
+  stars: number;
+  htmlUrl: string;
+  languages: string[];
+  frameworks: string[];
+}
+
+export interface TechStackRow {
+  technology: string;
+  kind: 'language' | 'framework';
+  // Organization repositories using it
+  repositories: string[];
+  // Members whose own repositories show it
+  members: string[];
+}
+
+export interface CategoryCoverage {
+  category: string;
+  slug: string;
+  name: string;
+  // Null when no member has a real score in the category
+  teamAverage: number | null;
+  bestScore: number | null;
+  strongestMember: string | null;
+  // Members scoring at least STRONG_CATEGORY_SCORE
+  strongMembers: string[];
+  // Nobody on the team is strong in this category
+  gap: boolean;
+}
+
+export interface TechnologyGap {
+  technology: string;
+  repositories: string[];
+  members: string[];
+  // The organization ships it, but no analyzed member or only one shows it in their own work
+  risk: 'uncovered' | 'single-member';
+}
+
+export interface OrganizationReport {
+  organization: GitHubOrganization;
+  mode: AnalysisMode;
+  agents: AgentDescriptor[];
+  members: MemberAnalysis[];
+  // Public members, including any beyond memberLimit
+  totalMembers: number;
+  repositories: OrganizationRepository[];
+  techStackMatrix: TechStackRow[];
+  skillCoverage: {
+    categories: CategoryCoverage[];
+    technologyGaps: TechnologyGap[];
+  };
+  // Cross-repo patterns that recur across members, most common first
+  sharedPatterns: Array<{ pattern: string; members: string[] }>;
+  generatedAt: string;
+}
+
+export const MAX_ORGANIZATION_MEMBERS = 25;
+// rankRepositories keeps the top 8
+export const MAX_ORGANIZATION_REPOSITORIES = 8;
+export const MAX_REPOSITORIES_PER_MEMBER = 6;
+
+const DEFAULT_MEMBER_LIMIT = 10;
+const DEFAULT_REPOSITORIES_PER_MEMBER = 4;
+const STRONG_CATEGORY_SCORE = 7;
+const ORGANIZATION_REPORT_TTL_SECONDS = 60 * 60;
+
+function isRateLimited(error: unknown): boolean {
+  return error instanceof GitHubApiError && (error.status === 403 || error.status === 429);
+}
+
+function patternNames(patterns: unknown[]): string[] {
+  return patterns
+    .map(pattern => (pattern as { pattern?: unknown }).pattern)
+    .filter((name): name is string => typeof name === 'string');
+}
+
+// Frameworks come from manifests, which the report doesn't carry; snapshots are cheap to rebuild since the client revalidates with ETags
+async function loadMemberFrameworks(login: string, repositories: string[]): Promise<string[]> {
+  const source = getRepositorySource();
+  const frameworks = await Promise.all(repositories.map(async repo => {
+    try {
+      return (await buildRepositorySnapshot(login, repo, undefined, source)).frameworks;
+    } catch (error) {
+      if (isRateLimited(error)) throw error;
+      return [];
+    }
+  }));
+  return Array.from(new Set(frameworks.flat()));
+}
+
+async function analyzeMember(member: GitHubOrganizationMember, mode: AnalysisMode, repositoriesPerMember: number): Promise<MemberAnalysis> {
+  const analysis: MemberAnalysis = {
+    login: member.login,
+    avatarUrl: member.avatar_url,
+    repositories: [],
+    overallScore: null,
+    categoryScores: {},
+    languages: [],
+    frameworks: [],
+    crossRepoPatterns: [],
+    detectedRole: null,
+    error: null
+  };
+
+  try {
+    const listed = await getGitHubService().getUserRepositories(member.login);
+    analysis.repositories = rankRepositories(listed).slice(0, repositoriesPerMember).map(repo => repo.name);
+    if (analysis.repositories.length === 0) {
+      return { ...analysis, error: 'No public repositories of their own' };
+    }
+
+    const report = await runAnalysisPipeline(member.login, analysis.repositories, { mode });
+    return {
+      ...analysis,
+      overallScore: report.overallDeveloperScore,
+      categoryScores: report.categoryScores,
+      languages: report.languageProfile ? getSkillLanguages(report.languageProfile) : [],
+      // The demo engine reads nothing, so there is nothing to detect
+      frameworks: mode === 'demo' ? [] : await loadMemberFrameworks(member.login, analysis.repositories),
+      crossRepoPatterns: patternNames(report.crossRepoPatterns),
+      detectedRole: report.careerProfile?.detectedRole ?? null
+    };
+  } catch (error) {
+    // A spent rate limit would fail every remaining member too
+    if (isRateLimited(error)) throw error;
+    console.log(`⚠️ Skipping ${member.login} in the organization roll-up:`, error);
+    return { ...analysis, error: error instanceof Error ? error.message : 'Analysis failed' };
+  }
+}
+
+async function assessOrganizationRepositories(org: string, repositoryLimit: number): Promise<OrganizationRepository[]> {
+  const ranked = rankRepositories(await getGitHubService().getOrganizationRepositories(org)).slice(0, repositoryLimit);
+  const source = getRepositorySource();
+
+  const repositories = await Promise.all(ranked.map(async (repo): Promise<OrganizationRepository | null> => {
+    try {
+      const snapshot = await buildRepositorySnapshot(org, repo.name, undefined, source);
+      return {
+        ...assessRepositoryMaturity(snapshot),
+        language: repo.language,
+        stars: repo.stargazers_count,
+        htmlUrl: repo.html_url,
+        languages: snapshot.languages,
+        frameworks: snapshot.frameworks
+      };
+    } catch (error) {
+      if (isRateLimited(error)) throw error;
+      console.log(`⚠️ Skipping ${org}/${repo.name} in the organization roll-up:`, error);
+      return null;
+    }
+  }));
+
+  return repositories.filter((repo): repo is OrganizationRepository => repo !== null);
+}
+
+// Technology rows across the organization's repositories and its members' own work, most widely used first
+function buildTechStackMatrix(repositories: OrganizationRepository[], members: MemberAnalysis[]): TechStackRow[] {
+  const rows = new Map<string, TechStackRow>();
+  const row = (technology: string, kind: TechStackRow['kind']) => {
+    if (!rows.has(technology)) {
+      rows.set(technology, { technology, kind, repositories: [], members: [] });
+    }
+    return rows.get(technology)!;
+  };
+
+  repositories.forEach(repo => {
+    repo.languages.forEach(language => row(language, 'language').repositories.push(repo.repository));
+    repo.frameworks.forEach(framework => row(framework, 'framework').repositories.push(repo.repository));
+  });
+  members.forEach(member => {
+    member.languages.forEach(language => row(language, 'language').members.push(member.login));
+    member.frameworks.forEach(framework => row(framework, 'framework').members.push(member.login));
+  });
+
+  return Array.from(rows.values()).sort((a, b) =>
+    (b.repositories.length + b.members.length) - (a.repositories.length + a.members.length) ||
+    a.technology.localeCompare(b.technology)
+  );
+}
+
+function buildCategoryCoverage(agents: AgentDescriptor[], members: MemberAnalysis[]): CategoryCoverage[] {
+  const analyzed = members.filter(member => !member.error);
+
+  return agents.map(agent => {
+    // Members whose category has only placeholder scores come through as null and don't count
+    const scores = analyzed.flatMap(member => {
+      const score = member.categoryScores[agent.slug];
+      return typeof score === 'number' ? [{ login: member.login, score }] : [];
+    });
+    const best = scores.reduce<{ login: string; score: number } | null>((top, entry) => !top || entry.score > top.score ? entry : top, null);
+    const strongMembers = scores.filter(entry => entry.score >= STRONG_CATEGORY_SCORE).map(entry => entry.login);
+    const average = scores.length > 0 ? scores.reduce((sum, entry) => sum + entry.score, 0) / scores.length : null;
+
+    return {
+      category: agent.category,
+      slug: agent.slug,
+      name: agent.name,
+      teamAverage: average === null ? null : Math.round(average * 10) / 10,
+      bestScore: best?.score ?? null,
+      strongestMember: best?.login ?? null,
+      strongMembers,
+      gap: strongMembers.length === 0
+    };
+  });
+}
+
+function findTechnologyGaps(matrix: TechStackRow[]): TechnologyGap[] {
+  return matrix
+    .filter(row => row.repositories.length > 0 && row.members.length <= 1)
+    .map(row => ({
+      technology: row.technology,
+      repositories: row.repositories,
+      members: row.members,
+      risk: row.members.length === 0 ? 'uncovered' as const : 'single-member' as const
+    }));
+}
+
+function findSharedPatterns(members: MemberAnalysis[]): OrganizationReport['sharedPatterns'] {
+  const byPattern = new Map<string, string[]>();
+  members.forEach(member => {
+    member.crossRepoPatterns.forEach(pattern => {
+      byPattern.set(pattern, [...(byPattern.get(pattern) || []), member.login]);
+    });
+  });
+
+  return Array.from(byPattern.entries())
+    .map(([pattern, logins]) => ({ pattern, members: logins }))
+    .sort((a, b) => b.members.length - a.members.length || a.pattern.localeCompare(b.pattern));
+}
+
+async function buildOrganizationReport(
+  org: string,
+  mode: AnalysisMode,
+  memberLimit: number,
+  repositoryLimit: number,
+  repositoriesPerMember: number,
+  onProgress?: OrganizationAnalysisOptions['onProgress']
+): Promise<OrganizationReport> {
+  const service = getGitHubService();
+  const [organization, allMembers] = await Promise.all([
+    service.getOrganization(org),
+    service.getOrganizationMembers(org)
+  ]);
+  const selectedMembers = allMembers.slice(0, memberLimit);
+
+  console.log(`🏢 Analyzing organization ${org}: ${selectedMembers.length} of ${allMembers.length} members, up to ${repositoryLimit} repositories`);
+
+  const members: MemberAnalysis[] = [];
+  const reportProgress = (currentMember: string | null) =>
+    onProgress?.({ completedMembers: members.length, totalMembers: selectedMembers.length, currentMember });
+
+  reportProgress(null);
+  const repositories = await assessOrganizationRepositories(org, repositoryLimit);
+
+  // One member at a time, so a large team doesn't burst through the rate limit
+  for (const member of selectedMembers) {
+    reportProgress(member.login);
+    members.push(await analyzeMember(member, mode, repositoriesPerMember));
+  }
+  reportProgress(null);
+
+  const agents = getAnalysisEngine(mode).getAgents();
+  const techStackMatrix = buildTechStackMatrix(repositories, members);
+
+  console.log(`✅ Organization ${org} analyzed: ${members.filter(member => !member.error).length} members, ${repositories.length} repositories`);
+
+  return {
+    organization,
+    mode,
+    agents,
+    members,
+    totalMembers: allMembers.length,
+    repositories,
+    techStackMatrix,
+    skillCoverage: {
+      categories: buildCategoryCoverage(agents, members),
+      technologyGaps: findTechnologyGaps(techStackMatrix)
+    },
+    sharedPatterns: findSharedPatterns(members),
+    generatedAt: new Date().toISOString()
+  };
+}
+
+// Per-member analyses rolled up for the team dashboard; cached for an hour since a full run makes many calls
+export function analyzeOrganization(org: string, options: OrganizationAnalysisOptions = {}): Promise<OrganizationReport> {
+  const {
+    mode = DEFAULT_ANALYSIS_MODE,
+    memberLimit = DEFAULT_MEMBER_LIMIT,
+    repositoryLimit = MAX_ORGANIZATION_REPOSITORIES,
+    repositoriesPerMember = DEFAULT_REPOSITORIES_PER_MEMBER,
+    onProgress
+  } = options;
+  const key = `organization:v1:${getGitHubClient().cacheScope}${org.toLowerCase()}:${mode}:${memberLimit}:${repositoryLimit}:${repositoriesPerMember}`;
+
+  return cached(key, () => buildOrganizationReport(org, mode, memberLimit, repositoryLimit, repositoriesPerMember, onProgress), ORGANIZATION_REPORT_TTL_SECONDS);
+}
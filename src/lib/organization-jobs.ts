@@ -0,0 +1,241 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AnalysisJobStatus, INTERRUPTED_JOB_ERROR, JOB_HEARTBEAT_MS, isStaleJob, isValidJobId } from './analysis-jobs';
+import { AnalysisMode, DEFAULT_ANALYSIS_MODE } from './analysis-pipeline';
+import { getDatabasePool, isDatabaseConfigured } from './database';
+import { getDataDirectory } from './data-directory';
+import { GitHubApiError } from './github-client';
+import { OrganizationAnalysisOptions, OrganizationProgress, OrganizationReport, analyzeOrganization } from './organization-analysis';
+
+export interface OrganizationJob {
+  id: string;
+  org: string;
+  mode: AnalysisMode;
+  // Unset limits use analyzeOrganization's defaults
+  memberLimit?: number;
+  repositoryLimit?: number;
+  repositoriesPerMember?: number;
+  status: AnalysisJobStatus;
+  progress: OrganizationProgress;
+  result?: OrganizationReport;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface OrganizationJobStore {
+  save(job: OrganizationJob): Promise<void>;
+  get(id: string): Promise<OrganizationJob | null>;
+}
+
+class FileOrganizationJobStore implements OrganizationJobStore {
+  private directory = getDataDirectory('org-jobs');
+
+  async save(job: OrganizationJob): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filePath = path.join(this.directory, `${job.id}.json`);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    // Write then rename so a crash never leaves a half-written job file
+    await fs.writeFile(tempPath, JSON.stringify(job), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(id: string): Promise<OrganizationJob | null> {
+    try {
+      const content = await fs.readFile(path.join(this.directory, `${id}.json`), 'utf-8');
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+}
+
+class PostgresOrganizationJobStore implements OrganizationJobStore {
+  private ready: Promise<void> | null = null;
+
+  private ensureTable(): Promise<void> {
+    if (!this.ready) {
+      this.ready = getDatabasePool().query(`
+        CREATE TABLE IF NOT EXISTS organization_jobs (
+          id VARCHAR(64) PRIMARY KEY,
+          org VARCHAR(255) NOT NULL,
+          status VARCHAR(20) NOT NULL,
+          job JSONB NOT NULL,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW()
+        );
+      `).then(() => undefined)
+        .catch(error => {
+          this.ready = null;
+          throw error;
+        });
+    }
+    return this.ready;
+  }
+
+  async save(job: OrganizationJob): Promise<void> {
+    await this.ensureTable();
+    await getDatabasePool().query(
+      `INSERT INTO organization_jobs (id, org, status, job)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (id) DO UPDATE SET status = EXCLUDED.status, job = EXCLUDED.job, updated_at = NOW()`,
+      [job.id, job.org, job.status, JSON.stringify(job)]
+    );
+  }
+
+  async get(id: string): Promise<OrganizationJob | null> {
+    await this.ensureTable();
+    const result = await getDatabasePool().query('SELECT job FROM organization_jobs WHERE id = $1', [id]);
+    return result.rows[0]?.job ?? null;
+  }
+}
+
+let store: OrganizationJobStore | null = null;
+
+export function getOrganizationJobStore(): OrganizationJobStore {
+  if (!store) {
+    store = isDatabaseConfigured() ? new PostgresOrganizationJobStore() : new FileOrganizationJobStore();
+  }
+  return store;
+}
+
+export type OrganizationJobOptions = Pick<OrganizationAnalysisOptions, 'mode' | 'memberLimit' | 'repositoryLimit' | 'repositoriesPerMember'>;
+
+export async function createOrganizationJob(
+  org: string,
+  { mode = DEFAULT_ANALYSIS_MODE, memberLimit, repositoryLimit, repositoriesPerMember }: OrganizationJobOptions = {}
+): Promise<OrganizationJob> {
+  const now = new Date().toISOString();
+
+  const job: OrganizationJob = {
+    id: randomUUID(),
+    org,
+    mode,
+    memberLimit,
+    repositoryLimit,
+    repositoriesPerMember,
+    status: 'queued',
+    progress: { completedMembers: 0, totalMembers: 0, currentMember: null },
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await getOrganizationJobStore().save(job);
+  console.log(`📋 Queued ${mode} organization job ${job.id} for ${org}`);
+
+  return job;
+}
+
+export async function getOrganizationJob(id: string): Promise<OrganizationJob | null> {
+  if (!isValidJobId(id)) return null;
+
+  const job = await getOrganizationJobStore().get(id);
+  if (!job) return null;
+
+  // Reported as failed but not saved, as for analysis jobs
+  if (isStaleJob(job)) {
+    job.status = 'failed';
+    job.error = INTERRUPTED_JOB_ERROR;
+  }
+
+  return job;
+}
+
+// The dashboard shows this message as is
+function describeFailure(org: string, error: unknown): string {
+  if (error instanceof GitHubApiError && (error.status === 403 || error.status === 429)) {
+    return 'GitHub API rate limit reached, please try again later';
+  }
+  if (error instanceof GitHubApiError && error.status === 404) {
+    return `GitHub organization ${org} not found`;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+export async function runOrganizationJob(id: string): Promise<void> {
+  const jobStore = getOrganizationJobStore();
+  const job = await jobStore.get(id);
+
+  if (!job || job.status !== 'queued') {
+    console.log(`⚠️ Organization job ${id} is not queued, skipping`);
+    return;
+  }
+
+  // Progress arrives while the previous write may still be in flight, so writes are chained to keep them ordered
+  let pendingWrite: Promise<void> = Promise.resolve();
+  const persist = () => {
+    job.updatedAt = new Date().toISOString();
+    const snapshot = JSON.parse(JSON.stringify(job));
+    pendingWrite = pendingWrite
+      .then(() => jobStore.save(snapshot))
+      .catch(error => console.error(`Failed to persist organization job ${id}:`, error));
+    return pendingWrite;
+  };
+
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  await persist();
+
+  // A single member's analysis can run for minutes without reporting progress
+  const heartbeat = setInterval(persist, JOB_HEARTBEAT_MS);
+
+  try {
+    console.log(`🚀 Running organization job ${id} for ${job.org}`);
+
+    job.result = await analyzeOrganization(job.org, {
+      mode: job.mode,
+      memberLimit: job.memberLimit,
+      repositoryLimit: job.repositoryLimit,
+      repositoriesPerMember: job.repositoriesPerMember,
+      onProgress: progress => {
+        job.progress = progress;
+        persist();
+      }
+    });
+    job.status = 'completed';
+    // A cached report never reported progress
+    job.progress = {
+      completedMembers: job.result.members.length,
+      totalMembers: job.result.members.length,
+      currentMember: null
+    };
+
+    console.log(`✅ Organization job ${id} complete`);
+  } catch (error) {
+    console.error(`❌ Organization job ${id} failed:`, error);
+    job.status = 'failed';
+    job.error = describeFailure(job.org, error);
+  }
+
+  clearInterval(heartbeat);
+  job.completedAt = new Date().toISOString();
+  await persist();
+}
+
+// Public view of a job: status, member progress and the report once ready
+export function summarizeOrganizationJob(job: OrganizationJob) {
+  const { completedMembers, totalMembers, currentMember } = job.progress;
+
+  return {
+    jobId: job.id,
+    org: job.org,
+    mode: job.mode,
+    status: job.status,
+    progress: {
+      completedMembers,
+      totalMembers,
+      currentMember,
+      percent: totalMembers > 0 ? Math.round((completedMembers / totalMembers) * 100) : 0
+    },
+    result: job.result ?? null,
+    error: job.error ?? null,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    startedAt: job.startedAt ?? null,
+    completedAt: job.completedAt ?? null
+  };
+}
@@ -0,0 +1,115 @@
+import { readFileSync, readdirSync } from 'fs';
+import path from 'path';
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  persona: string;
+  // Analysis mode that uses the template
+  mode: string;
+  description: string;
+  variables: string[];
+  body: string;
+}
+
+// What an analysis records about the prompt that produced it
+export interface PromptReference {
+  id: string;
+  version: number;
+}
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+// Template files are named <id>.v<version>.md, with a front matter header above the prompt body
+const TEMPLATE_FILE_PATTERN = /^([a-z0-9-]+)\.v(\d+)\.md$/;
+const FRONT_MATTER_PATTERN = /^---\n([\s\S]*?)\n---\n([\s\S]*)$/;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+let loadedTemplates: PromptTemplate[] | null = null;
+
+// GITRESUME_PROMPTS_DIR points at an alternative template directory
+function getPromptsDirectory(): string {
+  return process.env.GITRESUME_PROMPTS_DIR || path.join(process.cwd(), 'prompts');
+}
+
+function parseTemplate(file: string, source: string): PromptTemplate {
+  const match = source.replace(/\r\n/g, '\n').match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    throw new PromptTemplateError(`${file} has no front matter`);
+  }
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      fields[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  const [, fileId, fileVersion] = file.match(TEMPLATE_FILE_PATTERN) || [];
+  if (fields.id !== fileId || Number(fields.version) !== Number(fileVersion)) {
+    throw new PromptTemplateError(`${file} declares ${fields.id} v${fields.version}, which doesn't match its file name`);
+  }
+
+  const variables = (fields.variables || '').split(',').map(name => name.trim()).filter(Boolean);
+  const body = match[2].trim();
+  const undeclared = Array.from(body.matchAll(VARIABLE_PATTERN), m => m[1]).filter(name => !variables.includes(name));
+  if (undeclared.length > 0) {
+    throw new PromptTemplateError(`${file} uses undeclared variables: ${Array.from(new Set(undeclared)).join(', ')}`);
+  }
+
+  return {
+    id: fields.id,
+    version: Number(fields.version),
+    persona: fields.persona || fields.id,
+    mode: fields.mode || '',
+    description: fields.description || '',
+    variables,
+    body
+  };
+}
+
+// Read once per process; templates ship with the deployment and don't change underneath it
+export function loadPromptTemplates(): PromptTemplate[] {
+  if (loadedTemplates) return loadedTemplates;
+
+  const directory = getPromptsDirectory();
+  loadedTemplates = readdirSync(directory)
+    .filter(file => TEMPLATE_FILE_PATTERN.test(file))
+    .map(file => parseTemplate(file, readFileSync(path.join(directory, file), 'utf-8')))
+    .sort((a, b) => a.id.localeCompare(b.id) || a.version - b.version);
+
+  console.log(`📝 Loaded ${loadedTemplates.length} prompt templates from ${directory}`);
+  return loadedTemplates;
+}
+
+// Latest version unless a specific one is asked for
+export function getPromptTemplate(id: string, version?: number): PromptTemplate {
+  const candidates = loadPromptTemplates().filter(template => template.id === id);
+  const template = version === undefined
+    ? candidates[candidates.length - 1]
+    : candidates.find(candidate => candidate.version === version);
+
+  if (!template) {
+    throw new PromptTemplateError(`Prompt template ${id}${version === undefined ? '' : ` v${version}`} not found`);
+  }
+  return template;
+}
+
+export function renderPrompt(template: PromptTemplate, variables: Record<string, string | number>): string {
+  const missing = template.variables.filter(name => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new PromptTemplateError(`${template.id} v${template.version} is missing variables: ${missing.join(', ')}`);
+  }
+
+  return template.body.replace(VARIABLE_PATTERN, (_, name: string) => String(variables[name]));
+}
+
+export function toPromptReference(template: PromptTemplate): PromptReference {
+  return { id: template.id, version: template.version };
+}
@@ -0,0 +1,28 @@
+// Failed GitLab or Bitbucket API call; GitHub calls throw GitHubApiError from the shared client instead
+export class ProviderApiError extends Error {
+  constructor(public provider: string, public status: number, public url: string, message: string) {
+    super(`${provider} API error: ${status} - ${message}`);
+    this.name = 'ProviderApiError';
+  }
+}
+
+export interface ProviderResponse<T> {
+  data: T;
+  headers: Headers;
+}
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export async function fetchProviderJson<T>(provider: string, url: string, headers: Record<string, string> = {}): Promise<ProviderResponse<T>> {
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json', ...headers },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new ProviderApiError(provider, response.status, url, body.slice(0, 200) || response.statusText);
+  }
+
+  return { data: await response.json() as T, headers: response.headers };
+}
@@ -1,3 +1,6 @@
+import { getTokenBudget, sampleRepositoryFiles } from './file-sampler';
+import { buildRepositorySnapshot } from './repository-snapshot';
+
 interface RepoFile {
   name: string;
   content: string;
@@ -11,50 +14,24 @@ interface RealAnalysis {
 }
 
 export class RealAIAnalyzer {
-  private async fetchRepoFiles(username: string, repo: string): Promise<RepoFile[]> {
-    const token = process.env.GITHUB_TOKEN;
+  private async fetchRepoFiles(username: string, repo: string, ref?: string): Promise<RepoFile[]> {
     const files: RepoFile[] = [];
     
     try {
-      // Get repository tree
-      const treeResponse = await fetch(
-        `https://api.github.com/repos/${username}/${repo}/git/trees/main?recursive=1`,
-        { headers: { Authorization: `token ${token}` } }
-      );
-      const tree = await treeResponse.json();
+      // README and manifests come with the snapshot; source files are ranked and fitted to the token budget
+      const snapshot = await buildRepositorySnapshot(username, repo, ref);
+      const readmePath = snapshot.tree.find(entry => /^readme(\.|$)/i.test(entry.path))?.path || 'README.md';
       
-      // Get important files (README, main code files, package.json, etc.)
-      const importantFiles = tree.tree?.filter((file: any) => 
-        file.type === 'blob' && (
-          file.path.includes('README') ||
-          file.path.endsWith('.js') ||
-          file.path.endsWith('.ts') ||
-          file.path.endsWith('.py') ||
-          file.path.endsWith('.java') ||
-          file.path === 'package.json' ||
-          file.path === 'requirements.txt'
-        )
-      ).slice(0, 10); // Limit to 10 files
+      if (snapshot.readme) {
+        files.push({ name: readmePath, content: snapshot.readme, language: 'Markdown' });
+      }
+      for (const [path, content] of Object.entries(snapshot.manifests)) {
+        files.push({ name: path, content, language: this.detectLanguage(path) });
+      }
       
-      // Fetch file contents
-      for (const file of importantFiles || []) {
-        try {
-          const contentResponse = await fetch(file.url, {
-            headers: { Authorization: `token ${token}` }
-          });
-          const contentData = await contentResponse.json();
-          
-          if (contentData.content) {
-            const content = Buffer.from(contentData.content, 'base64').toString('utf-8');
-            files.push({
-              name: file.path,
-              content: content.slice(0, 2000), // Limit content size
-              language: this.detectLanguage(file.path)
-            });
-          }
-        } catch (error) {
-          console.log(`Failed to fetch ${file.path}`);
-        }
+      const sample = await sampleRepositoryFiles(snapshot, getTokenBudget());
+      for (const file of sample.files) {
+        files.push({ name: file.path, content: file.content, language: this.detectLanguage(file.path) });
       }
     } catch (error) {
       console.error('Failed to fetch repo files:', error);
@@ -72,8 +49,8 @@ export class RealAIAnalyzer {
     return 'Text';
   }
   
-  async analyzeCodeQuality(username: string, repo: string): Promise<RealAnalysis> {
-    const files = await this.fetchRepoFiles(username, repo);
+  async analyzeCodeQuality(username: string, repo: string, ref?: string): Promise<RealAnalysis> {
+    const files = await this.fetchRepoFiles(username, repo, ref);
     
     // Real analysis based on actual code
     let score = 5.0;
@@ -148,8 +125,8 @@ export class RealAIAnalyzer {
     };
   }
   
-  async analyzeDocumentation(username: string, repo: string): Promise<RealAnalysis> {
-    const files = await this.fetchRepoFiles(username, repo);
+  async analyzeDocumentation(username: string, repo: string, ref?: string): Promise<RealAnalysis> {
+    const files = await this.fetchRepoFiles(username, repo, ref);
     
     let score = 3.0;
     const insights: string[] = [];
@@ -207,8 +184,8 @@ export class RealAIAnalyzer {
     };
   }
   
-  async analyzeTechStack(username: string, repo: string): Promise<RealAnalysis> {
-    const files = await this.fetchRepoFiles(username, repo);
+  async analyzeTechStack(username: string, repo: string, ref?: string): Promise<RealAnalysis> {
+    const files = await this.fetchRepoFiles(username, repo, ref);
     
     let score = 4.0;
     const insights: string[] = [];
@@ -263,8 +240,8 @@ export class RealAIAnalyzer {
     };
   }
   
-  async analyzeImpactInnovation(username: string, repo: string): Promise<RealAnalysis> {
-    const files = await this.fetchRepoFiles(username, repo);
+  async analyzeImpactInnovation(username: string, repo: string, ref?: string): Promise<RealAnalysis> {
+    const files = await this.fetchRepoFiles(username, repo, ref);
     
     let score = 4.0;
     const insights: string[] = [];
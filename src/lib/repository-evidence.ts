@@ -0,0 +1,186 @@
+import { cached } from './cache';
+import { FileSample, estimateTokens, getTokenBudget, sampleRepositoryFiles, truncateToTokens } from './file-sampler';
+import { formatTechnology } from './framework-taxonomy';
+import { GitTreeEntry } from './github-tree';
+import { getRepositorySource } from './repository-source';
+import { RepositorySnapshot, snapshotCacheKey } from './repository-snapshot';
+
+// Prompt section describing one repository, with the labels a model may cite
+export interface RepositoryEvidence {
+  repository: string;
+  commitSha: string;
+  text: string;
+  // Section labels in the text, e.g. "README.md", "package.json", "tree", "commits" or a source path
+  sources: string[];
+  // Rough token count of the text (4 characters per token)
+  tokens: number;
+  budget: number;
+  // Source files chosen for the prompt and how each was fitted
+  sample: FileSample;
+}
+
+// What the report shows about the evidence behind each repository's scores
+export interface EvidenceSummary {
+  repository: string;
+  budget: number;
+  tokens: number;
+  files: { path: string; roles: string[]; mode: string; tokens: number }[];
+}
+
+export interface CitedRecommendation {
+  text: string;
+  source: string;
+}
+
+export interface CommitStats {
+  sampled: number;
+  authors: string[];
+  firstDate: string | null;
+  lastDate: string | null;
+  recentMessages: string[];
+}
+
+const COMMIT_SAMPLE_SIZE = 100;
+const MAX_OUTLINE_LINES = 40;
+
+// Upper share of the budget for each section; whatever they leave goes to sampled source files
+const BUDGET_SHARES = { readme: 0.2, manifests: 0.15, outline: 0.1 };
+
+const IGNORED_DIRECTORIES = ['node_modules/', 'vendor/', 'dist/', 'build/', '.next/', 'coverage/'];
+
+function section(label: string, title: string, body: string): string {
+  return `### [${label}] ${title}\n${body.trim()}\n`;
+}
+
+export async function buildRepositoryEvidence(snapshot: RepositorySnapshot, tokenBudget = getTokenBudget()): Promise<RepositoryEvidence> {
+  const sections: string[] = [];
+  const sources: string[] = ['repo'];
+
+  sections.push(section('repo', 'Repository facts', describeFacts(snapshot)));
+
+  if (snapshot.readme) {
+    const readmePath = snapshot.tree.find(entry => /^readme(\.|$)/i.test(entry.path))?.path || 'README';
+    sections.push(section(readmePath, 'README (excerpt)', truncateToTokens(snapshot.readme, tokenBudget * BUDGET_SHARES.readme)));
+    sources.push(readmePath);
+  }
+
+  const manifestPaths = Object.keys(snapshot.manifests);
+  if (manifestPaths.length > 0) {
+    const perManifest = (tokenBudget * BUDGET_SHARES.manifests) / manifestPaths.length;
+    for (const path of manifestPaths) {
+      sections.push(section(path, 'Manifest', truncateToTokens(snapshot.manifests[path], perManifest)));
+      sources.push(path);
+    }
+  }
+
+  if (snapshot.tree.length > 0) {
+    sections.push(section('tree', 'Directory outline', truncateToTokens(outlineTree(snapshot.tree), tokenBudget * BUDGET_SHARES.outline)));
+    sources.push('tree');
+  }
+
+  const commits = await fetchCommitStats(snapshot);
+  if (commits) {
+    sections.push(section('commits', 'Commit activity', describeCommits(commits)));
+    sources.push('commits');
+  }
+
+  const sample = await sampleRepositoryFiles(snapshot, tokenBudget - estimateTokens(sections.join('\n')));
+  for (const file of sample.files) {
+    sections.push(section(file.path, `Source sample (${file.roles.join(', ') || 'source'}; ${file.mode})`, file.content));
+    sources.push(file.path);
+  }
+
+  const text = `Evidence from ${snapshot.owner}/${snapshot.repo}${snapshot.commitSha ? ` at commit ${snapshot.commitSha.slice(0, 7)}` : ''}.
+Judge only what this evidence shows. Each section starts with a [label]; cite the label a recommendation is based on.
+
+${sections.join('\n')}`;
+
+  return { repository: snapshot.repo, commitSha: snapshot.commitSha, text, sources, tokens: estimateTokens(text), budget: tokenBudget, sample };
+}
+
+export function summarizeEvidence(evidence: RepositoryEvidence): EvidenceSummary {
+  return {
+    repository: evidence.repository,
+    budget: evidence.budget,
+    tokens: evidence.tokens,
+    files: evidence.sample.files.map(({ path, roles, mode, tokens }) => ({ path, roles, mode, tokens }))
+  };
+}
+
+// Recommendations rendered for the report, flagging citations that don't name a section of the evidence
+export function formatCitedRecommendations(recommendations: CitedRecommendation[], evidence: RepositoryEvidence): string[] {
+  return recommendations.map(({ text, source }) => {
+    if (!source) return text;
+    const known = evidence.sources.some(label => label === source || source.startsWith(label));
+    return known ? `${text} [${source}]` : `${text} [unverified: ${source}]`;
+  });
+}
+
+function describeFacts(snapshot: RepositorySnapshot): string {
+  const { info } = snapshot;
+  return [
+    `Name: ${snapshot.owner}/${snapshot.repo}`,
+    `Description: ${info.description || 'none'}`,
+    `Primary language (GitHub): ${info.language || 'unknown'}`,
+    `Languages detected in tree: ${snapshot.languages.join(', ') || 'none'}`,
+    `Frameworks detected: ${snapshot.frameworks.join(', ') || 'none'}`,
+    `Dependencies (from manifests): ${snapshot.dependencies.length}, recognized: ${snapshot.technologies.map(t => `${formatTechnology(t)} (${t.category}${t.dev ? ', dev' : ''})`).join(', ') || 'none'}`,
+    `Stars: ${info.stargazers_count ?? 'unknown'}, forks: ${info.forks_count ?? 'unknown'}`,
+    `Files: ${snapshot.tree.filter(entry => entry.type === 'blob').length}`,
+    `Ref: ${snapshot.ref || 'unknown'}`
+  ].join('\n');
+}
+
+// Top two directory levels with file counts, so the model sees the layout without every path
+function outlineTree(tree: GitTreeEntry[]): string {
+  const counts = new Map<string, number>();
+
+  for (const entry of tree) {
+    if (entry.type !== 'blob' || IGNORED_DIRECTORIES.some(dir => entry.path.includes(dir))) continue;
+    const parts = entry.path.split('/');
+    const key = parts.length === 1 ? parts[0] : parts.length === 2 ? `${parts[0]}/` : `${parts[0]}/${parts[1]}/`;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  const lines = Array.from(counts.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([path, count]) => (path.endsWith('/') ? `${path} (${count} files)` : path));
+
+  return lines.length > MAX_OUTLINE_LINES
+    ? [...lines.slice(0, MAX_OUTLINE_LINES), `… ${lines.length - MAX_OUTLINE_LINES} more entries`].join('\n')
+    : lines.join('\n');
+}
+
+// The most recent commits reachable from the analyzed SHA; fixed for a given commit, so cached by it
+async function fetchCommitStats(snapshot: RepositorySnapshot): Promise<CommitStats | null> {
+  if (!snapshot.commitSha) return null;
+
+  try {
+    return await cached(`commit-stats:v1:${snapshotCacheKey(snapshot)}`, async () => {
+      const commits = await getRepositorySource(snapshot.source, snapshot.provider).listCommits(snapshot.owner, snapshot.repo, snapshot.commitSha, { perPage: COMMIT_SAMPLE_SIZE });
+      const dates = commits.map(c => c.date).filter((date): date is string => Boolean(date)).sort();
+      const authors = new Set(commits.map(c => c.authorLogin || c.authorName).filter((name): name is string => Boolean(name)));
+
+      return {
+        sampled: commits.length,
+        authors: Array.from(authors),
+        firstDate: dates[0] || null,
+        lastDate: dates[dates.length - 1] || null,
+        recentMessages: commits.slice(0, 10).map(c => c.message.split('\n')[0])
+      };
+    });
+  } catch {
+    console.log(`Failed to fetch commit stats for ${snapshot.repo}`);
+    return null;
+  }
+}
+
+function describeCommits(stats: CommitStats): string {
+  const count = stats.sampled >= COMMIT_SAMPLE_SIZE ? `${COMMIT_SAMPLE_SIZE}+` : String(stats.sampled);
+  return [
+    `Commits: ${count} (${stats.firstDate?.slice(0, 10) || '?'} to ${stats.lastDate?.slice(0, 10) || '?'})`,
+    `Authors: ${stats.authors.slice(0, 10).join(', ') || 'unknown'}${stats.authors.length > 10 ? ` and ${stats.authors.length - 10} more` : ''}`,
+    'Recent messages:',
+    ...stats.recentMessages.map(message => `- ${message}`)
+  ].join('\n');
+}
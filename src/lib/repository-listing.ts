@@ -0,0 +1,68 @@
+import type { RepositoryListOptions } from './github';
+
+// Fields ranking and filtering read; GitHub repositories and every provider's common model have them
+export interface ListedRepository {
+  stargazers_count: number;
+  forks_count: number;
+  size: number;
+  language: string;
+  updated_at: string;
+  description: string;
+  fork: boolean;
+  archived: boolean;
+  is_template: boolean;
+  private: boolean;
+}
+
+// Forks are someone else's work, so they are skipped unless asked for. Private repositories a server
+// token happens to see are dropped too, unless the signed-in owner asked for them
+export function filterRepositories<T extends ListedRepository>(repos: T[], options: RepositoryListOptions = {}): T[] {
+  const { includeForks = false, includeArchived = true, includeTemplates = true, includePrivate = false } = options;
+  return repos.filter(repo =>
+    (includePrivate || !repo.private) &&
+    (includeForks || !repo.fork) &&
+    (includeArchived || !repo.archived) &&
+    (includeTemplates || !repo.is_template)
+  );
+}
+
+// Smart repository ranking algorithm
+export function rankRepositories<T extends ListedRepository>(repos: T[]): Array<T & { score: number }> {
+  return repos
+    .map(repo => ({ repo, score: calculateRepoScore(repo) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 8) // Top 8 repositories
+    .map(({ repo, score }) => ({ ...repo, score }));
+}
+
+function calculateRepoScore(repo: ListedRepository): number {
+  let score = 0;
+
+  // Stars weight (max 30 points)
+  score += Math.min(repo.stargazers_count * 2, 30);
+
+  // Forks weight (max 20 points)
+  score += Math.min(repo.forks_count * 3, 20);
+
+  // Size weight (max 15 points) - larger projects get more points
+  score += Math.min(repo.size / 1000, 15);
+
+  // Language popularity (max 10 points)
+  const popularLanguages = ['JavaScript', 'TypeScript', 'Python', 'Java', 'Go', 'Rust'];
+  if (popularLanguages.includes(repo.language)) {
+    score += 10;
+  }
+
+  // Recent activity (max 15 points)
+  const daysSinceUpdate = (Date.now() - new Date(repo.updated_at).getTime()) / (1000 * 60 * 60 * 24);
+  if (daysSinceUpdate < 30) score += 15;
+  else if (daysSinceUpdate < 90) score += 10;
+  else if (daysSinceUpdate < 180) score += 5;
+
+  // Description quality (max 10 points)
+  if (repo.description && repo.description.length > 20) {
+    score += 10;
+  }
+
+  return score;
+}
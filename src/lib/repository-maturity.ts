@@ -0,0 +1,135 @@
+import { RepositorySnapshot, languageForPath } from './repository-snapshot';
+
+export type MaturityLevel = 'minimal' | 'basic' | 'established';
+
+export interface MaturityAssessment {
+  // 0-10, like agent scores
+  score: number;
+  level: MaturityLevel;
+  // What was found, for the dashboard to show next to the score
+  signals: string[];
+  // What is missing
+  gaps: string[];
+}
+
+export interface RepositoryMaturity {
+  repository: string;
+  documentation: MaturityAssessment;
+  testing: MaturityAssessment;
+}
+
+// tests/, __tests__/, spec/, *.test.ts, *.spec.js, foo_test.go, test_foo.py
+const TEST_FILE_PATTERN = /(^|\/)(tests?|__tests__|specs?)\/|\.(test|spec)\.[a-z]+$|_test\.[a-z]+$|(^|\/)test_[^/]+\.py$/i;
+const CI_PATTERN = /^(\.github\/workflows\/|\.gitlab-ci\.yml$|\.circleci\/|Jenkinsfile$|azure-pipelines\.yml$|\.travis\.yml$|bitbucket-pipelines\.yml$)/;
+const DOCS_PATTERN = /^(docs?|documentation)\//i;
+const SETUP_SECTION_PATTERN = /^#+\s*(install|installation|getting started|setup|usage|quick ?start)/im;
+// A README this long usually explains more than the project name
+const SUBSTANTIAL_README_CHARS = 1000;
+// Test files per source file expected of a well-tested codebase
+const TEST_RATIO_TARGET = 0.2;
+
+function toAssessment(score: number, signals: string[], gaps: string[]): MaturityAssessment {
+  const rounded = Math.round(Math.min(score, 10) * 10) / 10;
+  const level: MaturityLevel = rounded >= 7 ? 'established' : rounded >= 4 ? 'basic' : 'minimal';
+  return { score: rounded, level, signals, gaps };
+}
+
+function assessDocumentation(snapshot: RepositorySnapshot): MaturityAssessment {
+  const paths = snapshot.tree.filter(entry => entry.type === 'blob').map(entry => entry.path);
+  const hasRootFile = (name: RegExp) => paths.some(p => !p.includes('/') && name.test(p));
+  const signals: string[] = [];
+  const gaps: string[] = [];
+  let score = 0;
+
+  if (snapshot.readme.trim()) {
+    score += 2;
+    signals.push('README');
+    if (snapshot.readme.length >= SUBSTANTIAL_README_CHARS) {
+      score += 2;
+      signals.push('Substantial README');
+    } else {
+      gaps.push('Expand the README beyond a short summary');
+    }
+    if (SETUP_SECTION_PATTERN.test(snapshot.readme)) {
+      score += 1;
+      signals.push('Setup or usage instructions');
+    } else {
+      gaps.push('Add installation and usage sections to the README');
+    }
+  } else {
+    gaps.push('Add a README');
+  }
+
+  if (paths.some(p => DOCS_PATTERN.test(p))) {
+    score += 2;
+    signals.push('docs/ directory');
+  } else {
+    gaps.push('Add a docs/ directory for anything beyond the README');
+  }
+
+  const extras: Array<[RegExp, string]> = [
+    [/^contributing(\.|$)/i, 'Contributing guide'],
+    [/^(license|licence)(\.|$)/i, 'License'],
+    [/^(changelog|changes|history)(\.|$)/i, 'Changelog']
+  ];
+  extras.forEach(([pattern, label]) => {
+    if (hasRootFile(pattern)) {
+      score += 1;
+      signals.push(label);
+    } else {
+      gaps.push(`Add a ${label.toLowerCase()}`);
+    }
+  });
+
+  return toAssessment(score, signals, gaps);
+}
+
+function assessTesting(snapshot: RepositorySnapshot): MaturityAssessment {
+  const paths = snapshot.tree
+    .filter(entry => entry.type === 'blob' && !entry.path.includes('node_modules/'))
+    .map(entry => entry.path);
+  const testFiles = paths.filter(p => TEST_FILE_PATTERN.test(p) && languageForPath(p));
+  const sourceFiles = paths.filter(p => !TEST_FILE_PATTERN.test(p) && languageForPath(p));
+  const testTools = snapshot.technologies.filter(technology => technology.category === 'testing');
+  const signals: string[] = [];
+  const gaps: string[] = [];
+  let score = 0;
+
+  if (testFiles.length > 0) {
+    score += 3;
+    signals.push(`${testFiles.length} test files`);
+    if (sourceFiles.length === 0 || testFiles.length / sourceFiles.length >= TEST_RATIO_TARGET) {
+      score += 2;
+      signals.push('Tests keep pace with source files');
+    } else {
+      gaps.push(`Only ${testFiles.length} test files for ${sourceFiles.length} source files`);
+    }
+  } else {
+    gaps.push('Add automated tests');
+  }
+
+  if (testTools.length > 0) {
+    score += 2;
+    signals.push(`Testing tools: ${testTools.map(technology => technology.name).join(', ')}`);
+  } else {
+    gaps.push('Declare a test framework in the project manifest');
+  }
+
+  if (paths.some(p => CI_PATTERN.test(p))) {
+    score += 3;
+    signals.push('Continuous integration');
+  } else {
+    gaps.push('Run the tests in continuous integration');
+  }
+
+  return toAssessment(score, signals, gaps);
+}
+
+// Documentation and testing maturity from the snapshot's tree, README and manifests alone
+export function assessRepositoryMaturity(snapshot: RepositorySnapshot): RepositoryMaturity {
+  return {
+    repository: snapshot.repo,
+    documentation: assessDocumentation(snapshot),
+    testing: assessTesting(snapshot)
+  };
+}
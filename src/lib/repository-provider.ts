@@ -0,0 +1,106 @@
+import { bitbucketProvider } from './bitbucket';
+import { GitHubRepo, GitHubService, RepositoryListOptions } from './github';
+import { getGitHubClient } from './github-client';
+import { gitlabProvider } from './gitlab';
+
+export type ProviderId = 'github' | 'gitlab' | 'bitbucket';
+
+export const PROVIDERS: ProviderId[] = ['github', 'gitlab', 'bitbucket'];
+
+// Common repository model; field names follow GitHub's REST API, which ranking, snapshots and the UI were built on
+export interface ProviderRepository {
+  provider: ProviderId;
+  id: number | string;
+  name: string;
+  // owner/name, or group/name on GitLab
+  full_name: string;
+  description: string;
+  // Primary language, or '' when the provider doesn't report one in listings
+  language: string;
+  stargazers_count: number;
+  forks_count: number;
+  // Kilobytes, as GitHub reports it; 0 when unknown
+  size: number;
+  created_at: string;
+  updated_at: string;
+  pushed_at: string;
+  html_url: string;
+  topics: string[];
+  fork: boolean;
+  archived: boolean;
+  is_template: boolean;
+  private: boolean;
+  default_branch: string;
+  languages?: Record<string, number>;
+}
+
+export interface ProviderUser {
+  provider: ProviderId;
+  login: string;
+  name: string;
+  bio: string;
+  public_repos: number;
+  followers: number;
+  following: number;
+  created_at: string;
+  avatar_url: string;
+  html_url: string;
+}
+
+export interface RepositoryProvider {
+  id: ProviderId;
+  name: string;
+  getUserProfile(username: string): Promise<ProviderUser>;
+  getUserRepositories(username: string, options?: RepositoryListOptions): Promise<ProviderRepository[]>;
+  // Where the local git source clones a repository from
+  cloneUrl(owner: string, repo: string): string;
+}
+
+let githubService: GitHubService | null = null;
+
+export function getGitHubService(): GitHubService {
+  githubService = githubService || new GitHubService();
+  return githubService;
+}
+
+const githubProvider: RepositoryProvider = {
+  id: 'github',
+  name: 'GitHub',
+  async getUserProfile(username) {
+    const user = await getGitHubService().getUserProfile(username);
+    return {
+      provider: 'github',
+      login: user.login,
+      name: user.name,
+      bio: user.bio,
+      public_repos: user.public_repos,
+      followers: user.followers,
+      following: user.following,
+      created_at: user.created_at,
+      avatar_url: user.avatar_url,
+      html_url: `${getGitHubClient().webUrl}/${user.login}`
+    };
+  },
+  async getUserRepositories(username, options) {
+    const repos = await getGitHubService().getUserRepositories(username, options);
+    return repos.map((repo: GitHubRepo) => ({ ...repo, provider: 'github' as const }));
+  },
+  cloneUrl: (owner, repo) => (process.env.GITRESUME_CLONE_URL || `${getGitHubClient().webUrl}/{owner}/{repo}.git`)
+    .replace('{owner}', owner)
+    .replace('{repo}', repo)
+};
+
+const providers: Record<ProviderId, RepositoryProvider> = {
+  'github': githubProvider,
+  'gitlab': gitlabProvider,
+  'bitbucket': bitbucketProvider
+};
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && (PROVIDERS as string[]).includes(value);
+}
+
+export function getRepositoryProvider(id: ProviderId = 'github'): RepositoryProvider {
+  return providers[id];
+}
+
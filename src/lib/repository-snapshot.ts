@@ -0,0 +1,219 @@
+import { cached } from './cache';
+import type { GitHubRepo } from './github';
+import { DetectedTechnology, classifyDependencies } from './framework-taxonomy';
+import { GitTreeEntry } from './github-tree';
+import { ParsedDependency, isManifestFile, parseManifests } from './manifest-parser';
+import type { ProviderId } from './repository-provider';
+import { RepositorySource, RepositorySourceKind, getRepositorySource } from './repository-source';
+
+// Everything the agents read about one repository at one commit, fetched once and shared
+export interface RepositorySnapshot {
+  // Where the rest of the repository (files, commits, contributors) is read from
+  source: RepositorySourceKind;
+  // GitHub, GitLab or Bitbucket
+  provider: ProviderId;
+  owner: string;
+  repo: string;
+  ref: string;
+  commitSha: string;
+  info: Partial<GitHubRepo>;
+  tree: GitTreeEntry[];
+  readme: string;
+  // path -> raw contents of dependency/build manifests
+  manifests: Record<string, string>;
+  languages: string[];
+  // GitHub's byte counts per language (default branch), or file sizes per language for local clones
+  languageBytes: Record<string, number>;
+  // Names of the framework-kind technologies, plus Node.js for a root package.json
+  frameworks: string[];
+  // Dependencies declared in the manifests
+  dependencies: ParsedDependency[];
+  // Dependencies recognized by the framework/library taxonomy, with versions
+  technologies: DetectedTechnology[];
+}
+
+interface CommitContent {
+  tree: GitTreeEntry[];
+  readme: string;
+  manifests: Record<string, string>;
+}
+
+const MAX_MANIFESTS = 10;
+// Manifests beyond this size (lockfile-like monsters) are skipped
+const MAX_MANIFEST_BYTES = 200 * 1024;
+
+// Programming languages only; markup and stylesheets don't count towards language diversity
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  '.js': 'JavaScript', '.jsx': 'JavaScript', '.mjs': 'JavaScript', '.cjs': 'JavaScript',
+  '.ts': 'TypeScript', '.tsx': 'TypeScript', '.mts': 'TypeScript',
+  '.py': 'Python', '.ipynb': 'Jupyter Notebook',
+  '.java': 'Java', '.kt': 'Kotlin', '.kts': 'Kotlin', '.scala': 'Scala', '.groovy': 'Groovy',
+  '.c': 'C', '.h': 'C',
+  '.cpp': 'C++', '.cc': 'C++', '.cxx': 'C++', '.hpp': 'C++',
+  '.cs': 'C#', '.fs': 'F#', '.vb': 'Visual Basic',
+  '.go': 'Go', '.rs': 'Rust', '.swift': 'Swift', '.m': 'Objective-C',
+  '.rb': 'Ruby', '.php': 'PHP', '.pl': 'Perl', '.lua': 'Lua', '.r': 'R', '.jl': 'Julia',
+  '.dart': 'Dart', '.ex': 'Elixir', '.exs': 'Elixir', '.erl': 'Erlang', '.hs': 'Haskell',
+  '.clj': 'Clojure', '.ml': 'OCaml', '.zig': 'Zig', '.sol': 'Solidity',
+  '.vue': 'Vue', '.svelte': 'Svelte',
+  '.sh': 'Shell', '.bash': 'Shell', '.ps1': 'PowerShell',
+  '.sql': 'SQL'
+};
+
+export function createEmptySnapshot(
+  owner: string,
+  repo: string,
+  source: RepositorySourceKind = 'github',
+  provider: ProviderId = 'github'
+): RepositorySnapshot {
+  return {
+    source,
+    provider,
+    owner,
+    repo,
+    ref: '',
+    commitSha: '',
+    info: {},
+    tree: [],
+    readme: '',
+    manifests: {},
+    languages: [],
+    languageBytes: {},
+    frameworks: [],
+    dependencies: [],
+    technologies: []
+  };
+}
+
+export async function buildRepositorySnapshot(
+  owner: string,
+  repo: string,
+  ref?: string,
+  source: RepositorySource = getRepositorySource()
+): Promise<RepositorySnapshot> {
+  const info = await source.getInfo(owner, repo);
+  const commit = await source.resolveCommit(owner, repo, ref || info.default_branch || 'HEAD');
+  const [{ tree, readme, manifests }, reportedLanguageBytes] = await Promise.all([
+    fetchCommitContent(source, owner, repo, commit.sha),
+    fetchLanguageBytes(source, owner, repo, commit.sha)
+  ]);
+  const dependencies = parseManifests(manifests);
+  const technologies = classifyDependencies(dependencies);
+
+  console.log(`📸 Snapshot ${owner}/${repo}@${commit.sha.slice(0, 7)}: ${tree.length} entries, ${Object.keys(manifests).length} manifests, ${dependencies.length} dependencies`);
+
+  return {
+    source: source.kind,
+    provider: source.provider,
+    owner,
+    repo,
+    ref: commit.ref,
+    commitSha: commit.sha,
+    info,
+    tree,
+    readme,
+    manifests,
+    languages: detectLanguages(tree),
+    languageBytes: reportedLanguageBytes ?? estimateLanguageBytes(tree),
+    frameworks: detectFrameworks(manifests, technologies),
+    dependencies,
+    technologies
+  };
+}
+
+// Cache key for data fixed at one commit; local clones get their own keys since authors are named differently,
+// and other providers' owner/repo names can collide with GitHub's
+export function snapshotCacheKey(snapshot: Pick<RepositorySnapshot, 'source' | 'provider' | 'owner' | 'repo' | 'commitSha'>): string {
+  const key = `${snapshot.owner}/${snapshot.repo}@${snapshot.commitSha}`;
+  const origin = snapshot.provider === 'github' ? key : `${snapshot.provider}:${key}`;
+  return snapshot.source === 'github' ? origin : `${snapshot.source}:${origin}`;
+}
+
+// Tree, README and manifests never change for a given commit, so they are cached by SHA without expiry;
+// any failed read rejects the whole load so nothing partial is cached
+function fetchCommitContent(source: RepositorySource, owner: string, repo: string, commitSha: string): Promise<CommitContent> {
+  return cached(`repo-content:v4:${snapshotCacheKey({ source: source.kind, provider: source.provider, owner, repo, commitSha })}`, async () => {
+    const tree = await source.getTree(owner, repo, commitSha);
+    const [readme, manifests] = await Promise.all([
+      source.getReadme(owner, repo, commitSha),
+      fetchManifests(source, owner, repo, tree)
+    ]);
+    return { tree, readme, manifests };
+  });
+}
+
+// GitHub computes these for the default branch; keyed by SHA so a new push refreshes them.
+// Null when the source has none or the request failed, so the snapshot estimates them from the tree instead
+async function fetchLanguageBytes(source: RepositorySource, owner: string, repo: string, commitSha: string): Promise<Record<string, number> | null> {
+  if (!source.getLanguageBytes) return null;
+
+  try {
+    return await cached(`languages:v1:${snapshotCacheKey({ source: source.kind, provider: source.provider, owner, repo, commitSha })}`, () =>
+      source.getLanguageBytes!(owner, repo, commitSha)
+    );
+  } catch (error) {
+    console.log(`Failed to fetch languages for ${repo}:`, error);
+    return null;
+  }
+}
+
+async function fetchManifests(source: RepositorySource, owner: string, repo: string, tree: GitTreeEntry[]): Promise<Record<string, string>> {
+  // Shallowest first so the root manifest wins over ones in examples/ or fixtures/
+  const manifestEntries = tree
+    .filter(entry => entry.type === 'blob' && isManifestFile(entry.path))
+    .filter(entry => !entry.path.includes('node_modules/') && (entry.size ?? 0) <= MAX_MANIFEST_BYTES)
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length)
+    .slice(0, MAX_MANIFESTS);
+
+  const manifests: Record<string, string> = {};
+
+  await Promise.all(manifestEntries.map(async entry => {
+    manifests[entry.path] = await readBlobText(source, owner, repo, entry);
+  }));
+
+  return manifests;
+}
+
+// Blob contents are addressed by their own SHA, so they are cached forever whichever source read them
+function readBlobText(source: RepositorySource, owner: string, repo: string, entry: GitTreeEntry): Promise<string> {
+  return cached(`blob:v1:${entry.sha}`, () => source.readFile(owner, repo, entry));
+}
+
+export function fetchBlobText(snapshot: RepositorySnapshot, entry: GitTreeEntry): Promise<string> {
+  return readBlobText(getRepositorySource(snapshot.source, snapshot.provider), snapshot.owner, snapshot.repo, entry);
+}
+
+export function languageForPath(filePath: string): string | undefined {
+  return LANGUAGE_EXTENSIONS[filePath.slice(filePath.lastIndexOf('.')).toLowerCase()];
+}
+
+export function detectLanguages(files: GitTreeEntry[]): string[] {
+  const languages = new Set<string>();
+
+  files.forEach(file => {
+    if (file.type !== 'blob') return;
+    const language = languageForPath(file.path);
+    if (language) languages.add(language);
+  });
+
+  return Array.from(languages);
+}
+
+// File sizes per language at the commit, for sources without GitHub's language statistics
+export function estimateLanguageBytes(files: GitTreeEntry[]): Record<string, number> {
+  const bytes: Record<string, number> = {};
+
+  files.forEach(file => {
+    const language = file.type === 'blob' && !file.path.includes('node_modules/') ? languageForPath(file.path) : undefined;
+    if (language) bytes[language] = (bytes[language] || 0) + (file.size ?? 0);
+  });
+
+  return bytes;
+}
+
+// Frameworks come from parsed manifests only; file names and README wording are not evidence of use
+export function detectFrameworks(manifests: Record<string, string>, technologies: DetectedTechnology[]): string[] {
+  const frameworks = new Set(technologies.filter(technology => technology.kind === 'framework').map(technology => technology.name));
+  if (manifests['package.json'] !== undefined) frameworks.add('Node.js');
+  return Array.from(frameworks);
+}
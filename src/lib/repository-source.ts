@@ -0,0 +1,148 @@
+import type { GitHubRepo } from './github';
+import { GitHubApiError, GitHubResponse, getGitHubClient } from './github-client';
+import { GitTreeEntry, fetchRepositoryTree, resolveCommitSha } from './github-tree';
+import { createLocalGitSource } from './local-git-source';
+import { ProviderId, getRepositoryProvider } from './repository-provider';
+
+export type RepositorySourceKind = 'github' | 'local';
+
+export const REPOSITORY_SOURCES: RepositorySourceKind[] = ['github', 'local'];
+
+export interface RepositoryContributor {
+  login: string;
+  contributions: number;
+}
+
+export interface SourceCommit {
+  sha: string;
+  message: string;
+  date: string | null;
+  authorName: string | null;
+  // GitHub login, or the best guess at one from the author's email for local clones
+  authorLogin: string | null;
+}
+
+export interface ListCommitsOptions {
+  // Only commits by this user
+  author?: string;
+  perPage: number;
+  page?: number;
+}
+
+// Where snapshots and commit history are read from; every method is keyed by owner/repo and a commit SHA
+export interface RepositorySource {
+  kind: RepositorySourceKind;
+  // Host the repository lives on; only GitHub has an API source, other providers are always cloned
+  provider: ProviderId;
+  getInfo(owner: string, repo: string): Promise<Partial<GitHubRepo>>;
+  resolveCommit(owner: string, repo: string, ref: string): Promise<{ ref: string; sha: string }>;
+  getTree(owner: string, repo: string, commitSha: string): Promise<GitTreeEntry[]>;
+  // README text at the commit, or '' when there is none
+  getReadme(owner: string, repo: string, commitSha: string): Promise<string>;
+  readFile(owner: string, repo: string, entry: GitTreeEntry): Promise<string>;
+  // Byte counts per language; sources without them leave it to the snapshot to estimate from the tree
+  getLanguageBytes?(owner: string, repo: string, commitSha: string): Promise<Record<string, number>>;
+  listCommits(owner: string, repo: string, commitSha: string, options: ListCommitsOptions): Promise<SourceCommit[]>;
+  // Paths changed by one commit
+  getCommitFiles(owner: string, repo: string, commitSha: string): Promise<string[]>;
+  getContributors(owner: string, repo: string, commitSha: string): Promise<RepositoryContributor[]>;
+  // Current lines per author login in one file; only sources with full history can answer this
+  blame?(owner: string, repo: string, commitSha: string, path: string): Promise<Record<string, number>>;
+}
+
+interface GitHubCommitItem {
+  sha: string;
+  commit: { message: string; author: { name: string; date: string } | null };
+  author: { login: string } | null;
+}
+
+interface GitHubCommitDetail {
+  files?: { filename: string }[];
+}
+
+const githubSource: RepositorySource = {
+  kind: 'github',
+  provider: 'github',
+  getInfo: (owner, repo) => getGitHubClient().get<GitHubRepo>(`/repos/${owner}/${repo}`),
+  resolveCommit: (owner, repo, ref) => resolveCommitSha(owner, repo, ref),
+  getTree: (owner, repo, commitSha) => fetchRepositoryTree(owner, repo, commitSha),
+  async getReadme(owner, repo, commitSha) {
+    try {
+      const readmeData = await getGitHubClient().get<{ content: string }>(
+        `/repos/${owner}/${repo}/readme?ref=${encodeURIComponent(commitSha)}`
+      );
+      return Buffer.from(readmeData.content, 'base64').toString('utf-8');
+    } catch (error) {
+      // Only a 404 means there is no README; anything else must not be cached as an empty one
+      if (!(error instanceof GitHubApiError && error.status === 404)) throw error;
+      console.log(`No README found for ${repo}`);
+      return '';
+    }
+  },
+  async readFile(owner, repo, entry) {
+    const blob = await getGitHubClient().get<{ content: string }>(entry.url);
+    return Buffer.from(blob.content, 'base64').toString('utf-8');
+  },
+  // GitHub computes these for the default branch only
+  getLanguageBytes: (owner, repo) => getGitHubClient().get<Record<string, number>>(`/repos/${owner}/${repo}/languages`),
+  async listCommits(owner, repo, commitSha, { author, perPage, page = 1 }) {
+    const authorQuery = author ? `&author=${encodeURIComponent(author)}` : '';
+    const commits = await getGitHubClient().get<GitHubCommitItem[]>(
+      `/repos/${owner}/${repo}/commits?sha=${commitSha}${authorQuery}&per_page=${perPage}&page=${page}`
+    );
+    return commits.map(item => ({
+      sha: item.sha,
+      message: item.commit.message,
+      date: item.commit.author?.date || null,
+      authorName: item.commit.author?.name || null,
+      authorLogin: item.author?.login || null
+    }));
+  },
+  async getCommitFiles(owner, repo, commitSha) {
+    const detail = await getGitHubClient().get<GitHubCommitDetail>(`/repos/${owner}/${repo}/commits/${commitSha}`);
+    return detail.files?.map(file => file.filename) || [];
+  },
+  // GitHub counts contributors on the default branch, not at the analyzed commit
+  async getContributors(owner, repo) {
+    const contributors: RepositoryContributor[] = [];
+    let endpoint: string | null = `/repos/${owner}/${repo}/contributors?per_page=100`;
+
+    // Follows the Link header so users beyond the first 100 contributors are still found
+    while (endpoint) {
+      const page: GitHubResponse<RepositoryContributor[]> = await getGitHubClient().request<RepositoryContributor[]>(endpoint);
+      // Empty repositories answer 204 with no body
+      if (Array.isArray(page.data)) contributors.push(...page.data);
+      endpoint = page.link?.split(',').find(part => part.includes('rel="next"'))?.match(/<([^>]+)>/)?.[1] || null;
+    }
+
+    return contributors;
+  }
+};
+
+const sources: Record<RepositorySourceKind, RepositorySource> = {
+  'github': githubSource,
+  'local': createLocalGitSource('github', (owner, repo) => getRepositoryProvider('github').cloneUrl(owner, repo))
+};
+
+// Local sources for GitLab and Bitbucket, created on first use
+const providerSources = new Map<ProviderId, RepositorySource>();
+
+export function isRepositorySourceKind(value: unknown): value is RepositorySourceKind {
+  return typeof value === 'string' && (REPOSITORY_SOURCES as string[]).includes(value);
+}
+
+// GITRESUME_SOURCE=local reads repositories from disk instead of the GitHub REST API
+export function getDefaultSourceKind(): RepositorySourceKind {
+  const configured = process.env.GITRESUME_SOURCE;
+  return isRepositorySourceKind(configured) ? configured : 'github';
+}
+
+export function getRepositorySource(kind: RepositorySourceKind = getDefaultSourceKind(), provider: ProviderId = 'github'): RepositorySource {
+  if (provider === 'github') return sources[kind];
+
+  if (!providerSources.has(provider)) {
+    const { cloneUrl } = getRepositoryProvider(provider);
+    providerSources.set(provider, createLocalGitSource(provider, cloneUrl));
+  }
+  return providerSources.get(provider)!;
+}
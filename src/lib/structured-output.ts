@@ -0,0 +1,282 @@
+import { LLMCacheContext, llmCacheKey, loadCachedResponse, saveCachedResponse } from './llm-cache';
+import { LLMProvider } from './llm-provider';
+
+export type SchemaNode =
+  | { type: 'string'; minLength?: number; description?: string }
+  | { type: 'number'; minimum?: number; maximum?: number; integer?: boolean; description?: string }
+  | { type: 'array'; items: SchemaNode; minItems?: number; maxItems?: number; description?: string }
+  | { type: 'object'; properties: Record<string, SchemaNode>; required?: string[]; description?: string };
+
+// Where a structured result came from: the model as-is, the model after repair/retry, a canned fallback,
+// or the offline mock provider
+export type OutputProvenance = 'model' | 'repaired' | 'fallback' | 'mock';
+
+export interface StructuredResult<T> {
+  value: T;
+  provenance: OutputProvenance;
+  attempts: number;
+  // Validation errors from the last failed attempt, kept for fallbacks
+  errors: string[];
+  // Replayed from the response cache instead of calling the model
+  cached: boolean;
+}
+
+export interface StructuredOptions<T> {
+  // Total model calls, including the first one
+  maxAttempts?: number;
+  fallback: () => T;
+  // When set, accepted responses are stored and replayed for the same prompt, model and commit
+  cache?: LLMCacheContext;
+}
+
+export interface AgentScoreOutput {
+  score: number;
+  reasoning: string;
+  recommendations: string[];
+}
+
+const SCORE_PROPERTY: SchemaNode = { type: 'number', minimum: 1, maximum: 10, description: 'overall rating from 1 to 10' };
+const REASONING_PROPERTY: SchemaNode = { type: 'string', minLength: 1, description: '2-3 sentences explaining the score' };
+
+// Output contract shared by every persona that scores a repository
+export const AGENT_SCORE_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    score: SCORE_PROPERTY,
+    reasoning: REASONING_PROPERTY,
+    recommendations: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, maxItems: 5 }
+  },
+  required: ['score', 'reasoning', 'recommendations']
+};
+
+export interface GroundedScoreOutput {
+  score: number;
+  reasoning: string;
+  recommendations: { text: string; source: string }[];
+}
+
+// Same contract for prompts that carry repository evidence: every recommendation names its source section
+export const GROUNDED_SCORE_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    score: SCORE_PROPERTY,
+    reasoning: REASONING_PROPERTY,
+    recommendations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string', minLength: 1, description: 'specific, actionable recommendation' },
+          source: { type: 'string', minLength: 1, description: 'label of the evidence section it is based on' }
+        },
+        required: ['text', 'source']
+      },
+      minItems: 1,
+      maxItems: 5
+    }
+  },
+  required: ['score', 'reasoning', 'recommendations']
+};
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+interface ValidationState {
+  errors: string[];
+  repaired: boolean;
+}
+
+function validateNode(node: SchemaNode, value: unknown, path: string, state: ValidationState): unknown {
+  switch (node.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        state.errors.push(`${path} must be a string`);
+        return value;
+      }
+      const trimmed = value.trim();
+      if (trimmed.length < (node.minLength ?? 0)) {
+        state.errors.push(`${path} must not be empty`);
+      }
+      return trimmed;
+    }
+
+    case 'number': {
+      // Models often answer "7" or "7/10"; take the leading number
+      const numeric = typeof value === 'string' && /^\s*-?\d+(\.\d+)?/.test(value);
+      if (numeric) {
+        state.repaired = true;
+      }
+      const parsed = numeric ? parseFloat(value as string) : value;
+      if (typeof parsed !== 'number' || Number.isNaN(parsed)) {
+        state.errors.push(`${path} must be a number`);
+        return value;
+      }
+      let number = parsed;
+      if (node.integer && !Number.isInteger(number)) {
+        number = Math.round(number);
+        state.repaired = true;
+      }
+      if ((node.minimum !== undefined && number < node.minimum) || (node.maximum !== undefined && number > node.maximum)) {
+        state.errors.push(`${path} must be between ${node.minimum ?? '-∞'} and ${node.maximum ?? '∞'}, got ${number}`);
+      }
+      return number;
+    }
+
+    case 'array': {
+      let items = value;
+      if (typeof value === 'string') {
+        items = [value];
+        state.repaired = true;
+      }
+      if (!Array.isArray(items)) {
+        state.errors.push(`${path} must be an array`);
+        return value;
+      }
+      if (items.length < (node.minItems ?? 0)) {
+        state.errors.push(`${path} needs at least ${node.minItems} item(s)`);
+      }
+      if (node.maxItems !== undefined && items.length > node.maxItems) {
+        items = items.slice(0, node.maxItems);
+        state.repaired = true;
+      }
+      return (items as unknown[]).map((item, index) => validateNode(node.items, item, `${path}[${index}]`, state));
+    }
+
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        state.errors.push(`${path} must be an object`);
+        return value;
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(node.properties)) {
+        if (input[key] === undefined) {
+          if (node.required?.includes(key)) {
+            state.errors.push(`${path}.${key} is required`);
+          }
+          continue;
+        }
+        output[key] = validateNode(child, input[key], `${path}.${key}`, state);
+      }
+      return output;
+    }
+  }
+}
+
+// Validates and lightly coerces a parsed value; unknown keys are dropped
+export function validateSchema<T>(schema: SchemaNode, value: unknown): { value: T; errors: string[]; repaired: boolean } {
+  const state: ValidationState = { errors: [], repaired: false };
+  const result = validateNode(schema, value, '$', state);
+  return { value: result as T, errors: state.errors, repaired: state.repaired };
+}
+
+// Renders a schema as an example-like outline for prompts
+export function describeSchema(node: SchemaNode, indent = ''): string {
+  const note = node.description ? ` // ${node.description}` : '';
+  switch (node.type) {
+    case 'string':
+      return `string${note}`;
+    case 'number': {
+      const range = node.minimum !== undefined && node.maximum !== undefined ? ` ${node.minimum}-${node.maximum}` : '';
+      return `${node.integer ? 'integer' : 'number'}${range}${note}`;
+    }
+    case 'array':
+      return `[${describeSchema(node.items, indent)}, ...]${note}`;
+    case 'object': {
+      const inner = Object.entries(node.properties)
+        .map(([key, child]) => `${indent}  "${key}": ${describeSchema(child, `${indent}  `)}`)
+        .join(',\n');
+      return `{\n${inner}\n${indent}}${note}`;
+    }
+  }
+}
+
+// Pulls the outermost JSON object out of a response that may carry prose or code fences
+export function extractJson(response: string): unknown {
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('response contains no JSON object');
+  }
+  return JSON.parse(response.slice(start, end + 1));
+}
+
+function withSchemaInstructions(prompt: string, schema: SchemaNode): string {
+  return `${prompt.trim()}
+
+Respond with a single JSON object only, no prose, matching this shape:
+${describeSchema(schema)}`;
+}
+
+function repairPrompt(prompt: string, schema: SchemaNode, previous: string, errors: string[]): string {
+  return `${withSchemaInstructions(prompt, schema)}
+
+Your previous answer was rejected:
+${previous.slice(0, 2000)}
+
+Problems:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Answer again with corrected JSON only.`;
+}
+
+// Fallbacks and mock answers carry no real assessment, so their scores never count
+export function isPlaceholderProvenance(provenance: string | undefined): boolean {
+  return provenance === 'fallback' || provenance === 'mock';
+}
+
+// Asks for JSON matching the schema, retrying with the validation errors, then falls back
+export async function generateStructured<T>(
+  llm: LLMProvider,
+  prompt: string,
+  schema: SchemaNode,
+  options: StructuredOptions<T>
+): Promise<StructuredResult<T>> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const firstRequest = withSchemaInstructions(prompt, schema);
+  const cacheKey = options.cache ? llmCacheKey(llm, firstRequest, options.cache) : null;
+
+  if (cacheKey && !options.cache?.forceRefresh) {
+    const hit = await loadCachedResponse(cacheKey);
+    if (hit) {
+      try {
+        // Re-validated on replay so a schema change can't resurrect a now-invalid answer
+        const validated = validateSchema<T>(schema, extractJson(hit.response));
+        if (validated.errors.length === 0) {
+          return { value: validated.value, provenance: hit.provenance, attempts: 0, errors: [], cached: true };
+        }
+      } catch {
+        console.log(`⚠️ Ignoring unreadable cached ${llm.name} response`);
+      }
+    }
+  }
+
+  let errors: string[] = [];
+  let previous = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const request = attempt === 1 || !previous ? firstRequest : repairPrompt(prompt, schema, previous, errors);
+
+    try {
+      previous = await llm.generate(request, { json: true });
+      const validated = validateSchema<T>(schema, extractJson(previous));
+
+      if (validated.errors.length === 0) {
+        const provenance: OutputProvenance = llm.name === 'mock' ? 'mock'
+          : attempt > 1 || validated.repaired ? 'repaired'
+          : 'model';
+        // Fallbacks are never cached, so the next run asks the model again
+        if (cacheKey) {
+          await saveCachedResponse(cacheKey, { response: previous, provenance, attempts: attempt });
+        }
+        return { value: validated.value, provenance, attempts: attempt, errors: [], cached: false };
+      }
+      errors = validated.errors;
+    } catch (error) {
+      errors = [error instanceof Error ? error.message : String(error)];
+    }
+
+    console.log(`⚠️ Structured output attempt ${attempt}/${maxAttempts} from ${llm.name} rejected: ${errors.join('; ')}`);
+  }
+
+  return { value: options.fallback(), provenance: 'fallback', attempts: maxAttempts, errors, cached: false };
+}
@@ -1,238 +0,0 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const execAsync = promisify(exec);
-
-export class TigerMinimalSystem {
-  private model: any;
-  private serviceId: string;
-
-  constructor() {
-    this.serviceId = process.env.TIGER_SERVICE_ID || 'xahs2zgwkg';
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-    this.model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
-  }
-
-  async analyzeRepositories(username: string, repositories: string[]): Promise<any> {
-    const sessionId = `tiger_${username}_${Date.now()}`;
-    
-    console.log(`🚀 Starting Tiger Cloud analysis for ${username}`);
-    console.log(`🐅 Tiger Service ID: ${this.serviceId}`);
-    
-    try {
-      // Test Tiger CLI connection
-      console.log('🔧 Testing Tiger CLI connection...');
-      const testResult = await this.runTigerCommand(`tiger service list`);
-      console.log('✅ Tiger CLI connected successfully');
-      
-      // Create repository objects from names
-      const repoObjects = repositories.map(name => ({
-        name,
-        language: this.guessLanguage(name),
-        description: `Repository: ${name}`,
-        stargazers_count: 0,
-        forks_count: 0,
-        size: 1000,
-        updated_at: new Date().toISOString()
-      }));
-
-      console.log(`📊 Processing ${repoObjects.length} repositories with Tiger Cloud`);
-      
-      // Run 3-agent analysis with 4 categories each
-      const analyses = [];
-      
-      for (const repo of repoObjects) {
-        console.log(`🔍 Tiger analysis: ${repo.name}`);
-        
-        const [recruiterAnalysis, ctoAnalysis, veteranAnalysis] = await Promise.all([
-          this.analyzeWithAgent('recruiter', repo),
-          this.analyzeWithAgent('cto', repo),
-          this.analyzeWithAgent('veteran', repo)
-        ]);
-        
-        analyses.push(
-          { agentType: 'recruiter', repoName: repo.name, ...recruiterAnalysis },
-          { agentType: 'cto', repoName: repo.name, ...ctoAnalysis },
-          { agentType: 'veteran', repoName: repo.name, ...veteranAnalysis }
-        );
-      }
-
-      const overallScore = analyses.reduce((sum, a) => sum + a.overallScore, 0) / analyses.length;
-      
-      // Generate Tiger-powered resume
-      const resume = this.generateTigerResume(username, analyses, overallScore);
-      
-      console.log(`✅ Tiger Cloud analysis complete: ${overallScore.toFixed(1)}/10`);
-      
-      return {
-        sessionId,
-        tigerServiceId: this.serviceId,
-        overallScore: Math.round(overallScore * 10) / 10,
-        analyses,
-        resume,
-        agentCount: 3,
-        tigerFeatures: ['tiger-cli', 'agentic-postgres', 'multi-agent-analysis']
-      };
-      
-    } catch (error) {
-      console.error('❌ Tiger Cloud analysis failed:', error);
-      throw new Error(`Tiger Cloud analysis failed: ${error}`);
-    }
-  }
-
-  private async analyzeWithAgent(agentType: string, repo: any): Promise<any> {
-    const prompts = {
-      recruiter: `You are a Senior Technical Recruiter evaluating ${repo.name} for hiring decisions.
-      
-Analyze these 4 categories (score each 1-10):
-1. CODE QUALITY - Clean, maintainable, professional code standards
-2. DOCUMENTATION - README, comments, project explanation quality  
-3. TECH STACK - Modern, relevant technologies and frameworks
-4. IMPACT/INNOVATION - Business value, creativity, problem-solving
-
-Return JSON: {
-  "codeQuality": {"score": number, "reasoning": "string"},
-  "documentation": {"score": number, "reasoning": "string"}, 
-  "techStack": {"score": number, "reasoning": "string"},
-  "impactInnovation": {"score": number, "reasoning": "string"},
-  "overallScore": number,
-  "recommendations": ["rec1", "rec2"]
-}`,
-
-      cto: `You are a Startup CTO evaluating ${repo.name} for technical leadership and business impact.
-      
-Analyze these 4 categories (score each 1-10):
-1. CODE QUALITY - Architecture, scalability, maintainability
-2. DOCUMENTATION - Technical docs, API docs, deployment guides
-3. TECH STACK - Strategic technology choices, future-proofing
-4. IMPACT/INNOVATION - Market potential, competitive advantage, ROI
-
-Return JSON: {
-  "codeQuality": {"score": number, "reasoning": "string"},
-  "documentation": {"score": number, "reasoning": "string"},
-  "techStack": {"score": number, "reasoning": "string"}, 
-  "impactInnovation": {"score": number, "reasoning": "string"},
-  "overallScore": number,
-  "recommendations": ["rec1", "rec2"]
-}`,
-
-      veteran: `You are a Veteran Software Professional (15+ years) evaluating ${repo.name} for technical excellence.
-      
-Analyze these 4 categories (score each 1-10):
-1. CODE QUALITY - Best practices, patterns, testing, security
-2. DOCUMENTATION - Professional documentation standards
-3. TECH STACK - Mature, proven technology choices
-4. IMPACT/INNOVATION - Real-world applicability, industry relevance
-
-Return JSON: {
-  "codeQuality": {"score": number, "reasoning": "string"},
-  "documentation": {"score": number, "reasoning": "string"},
-  "techStack": {"score": number, "reasoning": "string"},
-  "impactInnovation": {"score": number, "reasoning": "string"}, 
-  "overallScore": number,
-  "recommendations": ["rec1", "rec2"]
-}`
-    };
-
-    try {
-      const result = await this.model.generateContent(prompts[agentType as keyof typeof prompts]);
-      
-      const response = result.response.text();
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        
-        // Ensure all scores are valid
-        const categories = ['codeQuality', 'documentation', 'techStack', 'impactInnovation'];
-        categories.forEach(cat => {
-          if (parsed[cat]) {
-            parsed[cat].score = Math.max(1, Math.min(10, parseInt(parsed[cat].score) || 6));
-          }
-        });
-        
-        // Calculate overall score if not provided
-        if (!parsed.overallScore) {
-          const scores = categories.map(cat => parsed[cat]?.score || 6);
-          parsed.overallScore = Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
-        }
-        
-        return parsed;
-      }
-    } catch (error) {
-      console.error(`${agentType} agent failed:`, error);
-    }
-    
-    // Minimal fallback to ensure we have data
-    return {
-      codeQuality: { score: 6, reasoning: `Code quality assessment for ${repo.name}` },
-      documentation: { score: 5, reasoning: `Documentation review for ${repo.name}` },
-      techStack: { score: 7, reasoning: `Tech stack evaluation for ${repo.name}` },
-      impactInnovation: { score: 6, reasoning: `Impact analysis for ${repo.name}` },
-      overallScore: 6,
-      recommendations: ['Enhance documentation', 'Improve code structure']
-    };
-  }
-
-  private guessLanguage(repoName: string): string {
-    const name = repoName.toLowerCase();
-    if (name.includes('react') || name.includes('js')) return 'JavaScript';
-    if (name.includes('python') || name.includes('py')) return 'Python';
-    if (name.includes('java')) return 'Java';
-    if (name.includes('cpp') || name.includes('c++')) return 'C++';
-    return 'JavaScript'; // Default
-  }
-
-  private generateTigerResume(username: string, analyses: any[], overallScore: number): any {
-    const content = `# ${username}'s Professional GitResume
-## Tiger Cloud Multi-Agent Score: ${overallScore.toFixed(1)}/10
-
-### Executive Summary
-Professional analysis powered by Tiger Cloud's Agentic Postgres platform with specialized AI agents providing comprehensive repository evaluation.
-
-### Tiger Cloud Features Used
-- **Service ID:** ${this.serviceId}
-- **Multi-Agent Analysis:** 3 specialized agents (Recruiter, Engineer, CTO)
-- **Agentic Postgres:** Advanced database operations for agent coordination
-- **Real-time Processing:** Live analysis with Tiger CLI integration
-
-### Agent Analysis Results
-${analyses.map(a => `
-**${a.agentType.toUpperCase()} AGENT - ${a.repoName}**
-Score: ${a.score}/10
-Reasoning: ${a.reasoning}
-Recommendations: ${a.recommendations.join(', ')}
-`).join('\n')}
-
-### Professional Assessment
-This comprehensive evaluation demonstrates strong technical capabilities with opportunities for continued growth, as assessed by Tiger Cloud's multi-agent analysis system.
-
----
-*Powered by Tiger Cloud Agentic Postgres Platform*`;
-
-    return {
-      content,
-      skills: {
-        languages: ['JavaScript', 'TypeScript', 'Python'],
-        frameworks: ['React', 'Node.js', 'Next.js'],
-        tools: ['Git', 'GitHub', 'Tiger Cloud', 'Agentic Postgres'],
-        strengths: ['Tiger Cloud Integration', 'Multi-Agent Analysis', 'Professional Development'],
-        improvements: ['Documentation', 'Testing Coverage', 'Architecture']
-      }
-    };
-  }
-
-  private async runTigerCommand(command: string): Promise<string> {
-    try {
-      const { stdout, stderr } = await execAsync(command);
-      if (stderr && !stderr.includes('Warning')) {
-        console.warn('Tiger CLI warning:', stderr);
-      }
-      return stdout.trim();
-    } catch (error: any) {
-      console.error('Tiger CLI error:', error.message);
-      throw new Error(`Tiger CLI failed: ${error.message}`);
-    }
-  }
-}
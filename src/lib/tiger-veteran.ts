@@ -1,54 +1,81 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LLMProvider, getLLMProvider } from './llm-provider';
+import { PromptReference, getPromptTemplate, renderPrompt, toPromptReference } from './prompt-templates';
+import { EvidenceSummary, RepositoryEvidence, buildRepositoryEvidence, formatCitedRecommendations, summarizeEvidence } from './repository-evidence';
+import { RepositorySnapshot } from './repository-snapshot';
+import { AgentScoreOutput, GROUNDED_SCORE_SCHEMA, GroundedScoreOutput, OutputProvenance, generateStructured, isPlaceholderProvenance } from './structured-output';
 
 const execAsync = promisify(exec);
 
+// One category's score for one repository
+export interface VeteranCategoryAnalysis extends AgentScoreOutput {
+  agentType: string;
+  repoName: string;
+  provenance: OutputProvenance;
+  prompt: PromptReference;
+}
+
+export interface VeteranResume {
+  content: string;
+  skills: Record<string, string[]>;
+}
+
+export interface VeteranAnalysisResult {
+  sessionId: string;
+  tigerServiceId: string;
+  // Null when every category analysis is a placeholder
+  overallScore: number | null;
+  analyses: VeteranCategoryAnalysis[];
+  evidence: EvidenceSummary[];
+  resume: VeteranResume;
+  agentCount: number;
+  tigerFeatures: string[];
+}
+
 export class TigerVeteranSystem {
-  private model: any;
+  private llm: LLMProvider;
   private serviceId: string;
+  private forceRefresh = false;
 
-  constructor() {
+  constructor(llm: LLMProvider = getLLMProvider()) {
     this.serviceId = process.env.TIGER_SERVICE_ID || 'xahs2zgwkg';
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-    this.model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+    this.llm = llm;
   }
 
-  async analyzeRepositories(username: string, repositories: string[]): Promise<any> {
+  async analyzeRepositories(username: string, snapshots: RepositorySnapshot[], options: { forceRefresh?: boolean } = {}): Promise<VeteranAnalysisResult> {
     const sessionId = `tiger_${username}_${Date.now()}`;
+    this.forceRefresh = options.forceRefresh ?? false;
     
     console.log(`🚀 Starting Tiger Cloud veteran analysis for ${username}`);
     console.log(`🐅 Tiger Service ID: ${this.serviceId}`);
     
-    // Test Tiger CLI connection
+    // Test Tiger CLI connection; the analysis itself doesn't depend on it
     console.log('🔧 Testing Tiger CLI connection...');
-    const testResult = await this.runTigerCommand(`tiger service list`);
-    console.log('✅ Tiger CLI connected successfully');
+    try {
+      await this.runTigerCommand(`tiger service list`);
+      console.log('✅ Tiger CLI connected successfully');
+    } catch (error) {
+      console.log('⚠️ Tiger CLI unavailable, continuing without it:', error);
+    }
     
-    // Create repository objects from names
-    const repoObjects = repositories.map(name => ({
-      name,
-      language: this.guessLanguage(name),
-      description: `Repository: ${name}`,
-      stargazers_count: Math.floor(Math.random() * 100),
-      forks_count: Math.floor(Math.random() * 20),
-      size: 1000 + Math.floor(Math.random() * 5000),
-      updated_at: new Date().toISOString()
-    }));
-
-    console.log(`📊 Processing ${repoObjects.length} repositories with Tiger Cloud veteran analysis`);
+    console.log(`📊 Processing ${snapshots.length} repositories with Tiger Cloud veteran analysis`);
     
-    // Run 4-category analysis for each repo
-    const analyses = [];
+    // Run 4-category analysis for each repo, all four grounded in the same evidence
+    const analyses: VeteranCategoryAnalysis[] = [];
+    const evidenceSummaries: EvidenceSummary[] = [];
     
-    for (const repo of repoObjects) {
-      console.log(`🔍 Tiger veteran analysis: ${repo.name}`);
+    for (const snapshot of snapshots) {
+      console.log(`🔍 Tiger veteran analysis: ${snapshot.repo}`);
+      const evidence = await buildRepositoryEvidence(snapshot);
+      evidenceSummaries.push(summarizeEvidence(evidence));
+      const repo = { name: snapshot.repo, language: snapshot.info.language || snapshot.languages[0] || 'unknown language' };
       
       const [codeQuality, documentation, techStack, impactInnovation] = await Promise.all([
-        this.analyzeCategory('code_quality', repo),
-        this.analyzeCategory('documentation', repo),
-        this.analyzeCategory('tech_stack', repo),
-        this.analyzeCategory('impact_innovation', repo)
+        this.analyzeCategory('code_quality', repo, evidence),
+        this.analyzeCategory('documentation', repo, evidence),
+        this.analyzeCategory('tech_stack', repo, evidence),
+        this.analyzeCategory('impact_innovation', repo, evidence)
       ]);
       
       analyses.push(
@@ -59,129 +86,66 @@ export class TigerVeteranSystem {
       );
     }
 
-    const overallScore = analyses.reduce((sum, a) => sum + a.score, 0) / analyses.length;
+    // Fallbacks and mock answers are placeholders, so they never count
+    const scored = analyses.filter(a => !isPlaceholderProvenance(a.provenance));
+    const overallScore = scored.length > 0
+      ? Math.round((scored.reduce((sum, a) => sum + a.score, 0) / scored.length) * 10) / 10
+      : null;
     
     // Generate Tiger-powered resume with dynamic skills
-    const resume = this.generateTigerResume(username, analyses, overallScore, repoObjects);
+    const resume = this.generateTigerResume(username, analyses, overallScore, snapshots);
     
-    console.log(`✅ Tiger Cloud veteran analysis complete: ${overallScore.toFixed(1)}/10`);
+    console.log(`✅ Tiger Cloud veteran analysis complete: ${overallScore === null ? 'not scored' : `${overallScore.toFixed(1)}/10`}`);
     
     return {
       sessionId,
       tigerServiceId: this.serviceId,
-      overallScore: Math.round(overallScore * 10) / 10,
+      overallScore,
       analyses,
+      evidence: evidenceSummaries,
       resume,
       agentCount: 4,
       tigerFeatures: ['tiger-cli', 'agentic-postgres', 'veteran-analysis']
     };
   }
 
-  private async analyzeCategory(category: string, repo: any): Promise<any> {
-    const prompts = {
-      code_quality: `You are a globally renowned technical veteran with 15+ years of software development experience and 4+ years as a technical recruiter at top-tier companies (Google, Meta, Amazon).
-
-Analyze ${repo.name} (${repo.language}) for CODE QUALITY:
-
-Evaluate based on your extensive experience:
-- Clean, maintainable code that demonstrates professional development skills
-- Architecture and design patterns that show technical maturity  
-- Code organization and structure that indicates scalability thinking
-- Testing practices and quality assurance approaches
-- Security considerations and best practices implementation
-
-Rate 1-10 and provide detailed reasoning based on what you look for when hiring top engineers.
-Return JSON: {"score": number, "reasoning": "detailed professional analysis", "recommendations": ["specific actionable rec1", "specific actionable rec2"]}`,
-
-      documentation: `You are a globally renowned technical veteran with 15+ years of software development experience and 4+ years as a technical recruiter at top-tier companies.
-
-Analyze ${repo.name} (${repo.language}) for DOCUMENTATION:
-
-Evaluate based on your recruiting and technical experience:
-- README quality and project presentation that impresses hiring managers
-- Code comments and inline documentation for team collaboration
-- Setup instructions and onboarding efficiency for new developers
-- Technical documentation that demonstrates communication skills
-- Professional presentation that shows attention to detail
-
-Rate 1-10 and provide detailed reasoning based on what makes candidates stand out.
-Return JSON: {"score": number, "reasoning": "detailed professional analysis", "recommendations": ["specific actionable rec1", "specific actionable rec2"]}`,
-
-      tech_stack: `You are a globally renowned technical veteran with 15+ years of software development experience and 4+ years as a technical recruiter at top-tier companies.
-
-Analyze ${repo.name} (${repo.language}) for TECH STACK:
-
-Evaluate based on current market demands and technical excellence:
-- Modern, in-demand technologies that are valuable in the job market
-- Strategic technology choices that show forward-thinking
-- Framework and library selections that demonstrate good judgment
-- Technology stack maturity and industry adoption
-- Skills transferability and career growth potential
-
-Rate 1-10 and provide detailed reasoning based on what technologies companies are seeking.
-Return JSON: {"score": number, "reasoning": "detailed professional analysis", "recommendations": ["specific actionable rec1", "specific actionable rec2"]}`,
-
-      impact_innovation: `You are a globally renowned technical veteran with 15+ years of software development experience and 4+ years as a technical recruiter at top-tier companies.
-
-Analyze ${repo.name} (${repo.language}) for IMPACT/INNOVATION:
-
-Evaluate based on what impresses hiring managers and technical leaders:
-- Problem-solving approach and creativity in solution design
-- Business value and real-world applicability of the project
-- Innovation and unique approaches that stand out to employers
-- Portfolio strength and differentiation from other candidates
-- Potential for scaling and commercial viability
-
-Rate 1-10 and provide detailed reasoning based on what makes candidates memorable and hireable.
-Return JSON: {"score": number, "reasoning": "detailed professional analysis", "recommendations": ["specific actionable rec1", "specific actionable rec2"]}`
-    };
-
-    const result = await this.model.generateContent(prompts[category as keyof typeof prompts]);
-    
-    const response = result.response.text();
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    
-    if (!jsonMatch) {
-      throw new Error(`Failed to get valid JSON response for ${category} analysis of ${repo.name}`);
-    }
+  private async analyzeCategory(
+    category: string,
+    repo: { name: string; language: string },
+    evidence: RepositoryEvidence
+  ): Promise<AgentScoreOutput & { provenance: OutputProvenance; prompt: PromptReference }> {
+    const template = getPromptTemplate(`veteran-${category.replace('_', '-')}`);
+    const prompt = renderPrompt(template, { repoName: repo.name, language: repo.language, evidence: evidence.text });
+    const result = await generateStructured<GroundedScoreOutput>(this.llm, prompt, GROUNDED_SCORE_SCHEMA, {
+      // No canned opinion here: a neutral score, marked as fallback so the report can discount it
+      fallback: () => ({
+        score: 5,
+        reasoning: `No valid ${category.replace('_', ' ')} analysis could be obtained for ${repo.name}; this score is a placeholder.`,
+        recommendations: [{ text: 'Re-run the analysis once the LLM provider is reachable', source: '' }]
+      }),
+      cache: { template: template.id, version: template.version, commitSha: evidence.commitSha, forceRefresh: this.forceRefresh }
+    });
 
-    const parsed = JSON.parse(jsonMatch[0]);
-    
-    if (!parsed.score || !parsed.reasoning || !parsed.recommendations) {
-      throw new Error(`Invalid response format for ${category} analysis of ${repo.name}`);
+    if (result.provenance === 'fallback') {
+      console.log(`⚠️ ${category} analysis of ${repo.name} fell back after ${result.attempts} attempts: ${result.errors.join('; ')}`);
     }
 
     return {
-      score: Math.max(1, Math.min(10, parseInt(parsed.score))),
-      reasoning: parsed.reasoning,
-      recommendations: parsed.recommendations
+      score: result.value.score,
+      reasoning: result.value.reasoning,
+      recommendations: formatCitedRecommendations(result.value.recommendations, evidence),
+      provenance: result.provenance,
+      prompt: toPromptReference(template)
     };
   }
 
-  private guessLanguage(repoName: string): string {
-    const name = repoName.toLowerCase();
-    if (name.includes('react') || name.includes('js')) return 'JavaScript';
-    if (name.includes('python') || name.includes('py') || name.includes('django') || name.includes('flask')) return 'Python';
-    if (name.includes('java') && !name.includes('javascript')) return 'Java';
-    if (name.includes('cpp') || name.includes('c++')) return 'C++';
-    if (name.includes('rust')) return 'Rust';
-    if (name.includes('go') || name.includes('golang')) return 'Go';
-    if (name.includes('php')) return 'PHP';
-    if (name.includes('ruby')) return 'Ruby';
-    if (name.includes('swift')) return 'Swift';
-    if (name.includes('kotlin')) return 'Kotlin';
-    if (name.includes('dart') || name.includes('flutter')) return 'Dart';
-    if (name.includes('typescript') || name.includes('ts')) return 'TypeScript';
-    return 'JavaScript'; // Default
-  }
-
-  private generateTigerResume(username: string, analyses: any[], overallScore: number, repos: any[]): any {
+  private generateTigerResume(username: string, analyses: VeteranCategoryAnalysis[], overallScore: number | null, repos: RepositorySnapshot[]): VeteranResume {
     // Extract dynamic skills from repository names and analysis
     const skills = this.extractDynamicSkills(repos, analyses);
     
     const content = `${username}'s Professional GitResume
 
-Tiger Cloud Veteran Analysis Score: ${overallScore.toFixed(1)}/10
+Tiger Cloud Veteran Analysis Score: ${overallScore === null ? 'not scored' : `${overallScore.toFixed(1)}/10`}
 
 Executive Summary
 Professional analysis by a globally renowned technical veteran with 15+ years of software development experience and 4+ years as a technical recruiter at top-tier companies. This assessment uses Tiger Cloud's Agentic Postgres platform for comprehensive evaluation.
@@ -193,7 +157,10 @@ Tiger Cloud Features Used
 - Real-time Processing: Live analysis with Tiger CLI integration
 
 Category Analysis Results
-${analyses.map(a => `
+${analyses.map(a => isPlaceholderProvenance(a.provenance) ? `
+${a.agentType.replace('_', ' ').toUpperCase()} - ${a.repoName}
+Score: not scored
+` : `
 ${a.agentType.replace('_', ' ').toUpperCase()} - ${a.repoName}
 Score: ${a.score}/10
 Expert Analysis: ${a.reasoning}
@@ -212,8 +179,8 @@ Powered by Tiger Cloud Agentic Postgres Platform`;
     };
   }
 
-  private extractDynamicSkills(repos: any[], analyses: any[]): any {
-    const repoNames = repos.map(r => r.name.toLowerCase());
+  private extractDynamicSkills(repos: RepositorySnapshot[], analyses: VeteranCategoryAnalysis[]): Record<string, string[]> {
+    const repoNames = repos.map(r => r.repo.toLowerCase());
     const languages = new Set<string>();
     const frameworks = new Set<string>();
     const tools = new Set(['Git', 'GitHub', 'Tiger Cloud', 'Agentic Postgres']);
@@ -221,6 +188,12 @@ Powered by Tiger Cloud Agentic Postgres Platform`;
     const cloud = new Set<string>();
     const devops = new Set<string>();
 
+    // Detected from the repository trees and READMEs
+    repos.forEach(snapshot => {
+      snapshot.languages.forEach(language => languages.add(language));
+      snapshot.frameworks.forEach(framework => frameworks.add(framework));
+    });
+
     // Extract from repo names
     repoNames.forEach(name => {
       // Languages
@@ -301,27 +274,33 @@ Powered by Tiger Cloud Agentic Postgres Platform`;
       frameworks.add('Node.js');
     }
 
-    // Generate strengths based on analysis scores
+    // Generate strengths based on analysis scores; placeholders say nothing either way, so null categories are skipped
     const strengths = new Set(['Tiger Cloud Integration', 'Veteran Analysis']);
+    const averageScore = (agentType: string): number | null => {
+      const scored = analyses.filter(a => a.agentType === agentType && !isPlaceholderProvenance(a.provenance));
+      return scored.length > 0 ? scored.reduce((sum, a) => sum + a.score, 0) / scored.length : null;
+    };
     const avgScores = {
-      code_quality: analyses.filter(a => a.agentType === 'code_quality').reduce((sum, a) => sum + a.score, 0) / repos.length,
-      documentation: analyses.filter(a => a.agentType === 'documentation').reduce((sum, a) => sum + a.score, 0) / repos.length,
-      tech_stack: analyses.filter(a => a.agentType === 'tech_stack').reduce((sum, a) => sum + a.score, 0) / repos.length,
-      impact_innovation: analyses.filter(a => a.agentType === 'impact_innovation').reduce((sum, a) => sum + a.score, 0) / repos.length
+      code_quality: averageScore('code_quality'),
+      documentation: averageScore('documentation'),
+      tech_stack: averageScore('tech_stack'),
+      impact_innovation: averageScore('impact_innovation')
     };
+    const isAtLeast = (score: number | null, threshold: number) => score !== null && score >= threshold;
+    const isBelow = (score: number | null, threshold: number) => score !== null && score < threshold;
 
-    if (avgScores.code_quality >= 7) strengths.add('Code Quality Excellence');
-    if (avgScores.documentation >= 7) strengths.add('Professional Documentation');
-    if (avgScores.tech_stack >= 7) strengths.add('Modern Technology Stack');
-    if (avgScores.impact_innovation >= 7) strengths.add('Innovation & Impact');
+    if (isAtLeast(avgScores.code_quality, 7)) strengths.add('Code Quality Excellence');
+    if (isAtLeast(avgScores.documentation, 7)) strengths.add('Professional Documentation');
+    if (isAtLeast(avgScores.tech_stack, 7)) strengths.add('Modern Technology Stack');
+    if (isAtLeast(avgScores.impact_innovation, 7)) strengths.add('Innovation & Impact');
     if (repos.length >= 5) strengths.add('Portfolio Diversity');
 
     // Generate improvements based on lower scores
     const improvements = new Set<string>();
-    if (avgScores.code_quality < 6) improvements.add('Code Quality & Architecture');
-    if (avgScores.documentation < 6) improvements.add('Documentation Standards');
-    if (avgScores.tech_stack < 6) improvements.add('Technology Stack Modernization');
-    if (avgScores.impact_innovation < 6) improvements.add('Business Impact & Innovation');
+    if (isBelow(avgScores.code_quality, 6)) improvements.add('Code Quality & Architecture');
+    if (isBelow(avgScores.documentation, 6)) improvements.add('Documentation Standards');
+    if (isBelow(avgScores.tech_stack, 6)) improvements.add('Technology Stack Modernization');
+    if (isBelow(avgScores.impact_innovation, 6)) improvements.add('Business Impact & Innovation');
     
     // Default improvements
     if (improvements.size === 0) {